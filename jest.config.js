@@ -2,7 +2,7 @@ module.exports = {
     verbose: true,
 
     preset: "ts-jest",
-    testEnvironment: "jsdom",
+    testEnvironment: "./jest.environment.js",
 
     testMatch: [
         "**/?(*.)(spec|test).ts?(x)"
@@ -0,0 +1,17 @@
+const JsdomEnvironment = require("jest-environment-jsdom").default;
+
+/**
+ * Jsdom environment with Node typed arrays and text codecs: web3 and WalletConnect
+ * crypto dependencies check Uint8Array instances of the Node realm.
+ */
+class TestEnvironment extends JsdomEnvironment {
+    async setup () {
+        await super.setup();
+
+        this.global.Uint8Array = Uint8Array;
+        this.global.TextEncoder = TextEncoder;
+        this.global.TextDecoder = TextDecoder;
+    }
+}
+
+module.exports = TestEnvironment;
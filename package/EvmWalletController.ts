@@ -1,48 +1,243 @@
 import BaseController from "@knownout/base-controller";
 import { StorageController } from "@knownout/lib";
-import modalWindowController from "@knownout/modal-window-controller";
 import { MetaMaskInpageProvider } from "@metamask/providers";
-import WalletConnectProvider from "@walletconnect/ethereum-provider";
 import BigNumber from "bignumber.js";
 import { action, computed, makeObservable, observable } from "mobx";
 import Web3 from "web3";
-import getInstalledWallets from "./utils/get-installed-wallets";
-import { getNetworksValue, TNetworkInfo } from "./utils/network-utils";
-import waitingEthereumPromise from "./utils/waiting-ethereum-promise";
+import InjectedConnector from "./connectors/injected-connector";
+import WalletConnectConnector, { TWalletConnectOptions } from "./connectors/wallet-connect-connector";
+import { IWalletConnector, TWalletConnectorContext } from "./connectors/wallet-connector";
+import createBlockSubscription from "./utils/block-subscription";
+import { getPolicyChainId, isChainAllowed, TChainPolicy, validateChainPolicy } from "./utils/chain-policy";
+import {
+    fetchChainlist,
+    parseChainlist,
+    TChainlistEntry,
+    TChainlistImportOptions,
+    TChainlistImportResult
+} from "./utils/chainlist-utils";
+import {
+    canTransitionTo,
+    PendingConnectionStatuses,
+    TConnectionStatus
+} from "./utils/connection-status";
+import ContractHandle, { TAbi, TContractAddresses, TContractHandleContext } from "./utils/contract-handle";
+import EventEmitter, { TEventUnsubscribe } from "./utils/event-emitter";
+import {
+    EnsChainId,
+    getEnsAvatarUrl,
+    getEnsText,
+    lookupEnsName,
+    normalizeEnsName,
+    resolveEnsAddress,
+    TEnsProfile
+} from "./utils/ens-utils";
+import {
+    ERC20Abi,
+    getTokenKey,
+    isExecutionRevertedError,
+    MaxUint256,
+    TAllowanceProgress,
+    TEnsureAllowanceOptions,
+    TTokenInfo,
+    ZeroResetTokens
+} from "./utils/erc20-utils";
+import {
+    getFeeEstimation,
+    getTransactionFees,
+    TFeeEstimation,
+    TFeeTier,
+    TTransactionCostPreview
+} from "./utils/fee-utils";
+import getInstalledWallets, { LegacyWalletRdns } from "./utils/get-installed-wallets";
+import {
+    getAddEthereumChainParameter,
+    getNetworksValue,
+    getRpcUrls,
+    isUnrecognizedChainError,
+    substituteNetworksRpcVariables,
+    TNetworkInfo,
+    TRpcVariables,
+    validateNetworkInfo
+} from "./utils/network-utils";
+import ReadProvider from "./utils/read-provider";
+import {
+    buildSiweMessage,
+    generateSiweNonce,
+    parseSiweMessage,
+    serializeTypedData,
+    TSiweMessageParams,
+    TSiweVerificationResult,
+    TTypedData,
+    TTypedDataTypes,
+    verifySiweMessage,
+    verifySiweMessageWithContract
+} from "./utils/signature-utils";
+import {
+    getTransactionUpdate,
+    isTransactionFinal,
+    PendingTransactionsStorageKey,
+    toRpcTransaction,
+    TTrackedTransaction,
+    TTransactionRequest
+} from "./utils/transaction-utils";
+import {
+    createWalletSessionSync,
+    isWalletSessionExpired,
+    parseWalletSession,
+    TWalletSession,
+    TWalletSessionSync,
+    WalletSessionStorageKey,
+    WalletSessionVersion
+} from "./utils/wallet-session";
+import {
+    getWalletOptions,
+    KnownWallets,
+    TKnownWallet,
+    TWalletOption,
+    TWalletPicker,
+    TWalletPickerContext
+} from "./utils/wallet-picker";
+import {
+    ChainDisconnectedError,
+    DisconnectedError,
+    EvmWalletError,
+    InvalidParamsError,
+    RequestPendingError,
+    toEvmWalletError,
+    TransactionRejectedError,
+    UnauthorizedError,
+    UserRejectedRequestError,
+    WalletLockedError
+} from "./utils/wallet-errors";
 
 /**
- * Cached provider local storage key.
+ * Cached provider local storage key, migrated to the wallet session record.
  * @type {string}
  */
 export const CachedEthereumProviderStorageKey = "cachedEthereumProvider";
 
 /**
- * WalletConnect local storage data key.
+ * Custom networks local storage key.
  * @type {string}
  */
-export const WalletConnectDataStorageKey = "walletconnect";
+export const CustomNetworksStorageKey = "evmWalletCustomNetworks";
+
+export { WalletConnectDataStorageKey } from "./connectors/wallet-connect-connector";
 
 /**
- * Default networks list.
+ * Default networks list, Infura rpc is used if INFURA_API_KEY set in the rpcVariables option.
  * @type {{[p: number]: TNetworkInfo}}
  */
 export const defaultNetworksList = {
     1: {
+        name: "Ethereum Mainnet",
         currency: "ETH",
-        rpc: "https://mainnet.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161"
+        currencyName: "Ether",
+        decimals: 18,
+        rpc: [ "https://mainnet.infura.io/v3/${INFURA_API_KEY}", "https://ethereum-rpc.publicnode.com" ],
+        explorers: [ "https://etherscan.io" ]
     },
 
     56: {
+        name: "BNB Smart Chain Mainnet",
         currency: "BNB",
-        rpc: "https://bsc-dataseed.binance.org/"
+        currencyName: "BNB",
+        decimals: 18,
+        rpc: "https://bsc-dataseed.binance.org/",
+        explorers: [ "https://bscscan.com" ]
     },
 
     250: {
+        name: "Fantom Opera",
         currency: "FTM",
-        rpc: "https://rpc.ankr.com/fantom/"
+        currencyName: "Fantom",
+        decimals: 18,
+        rpc: "https://rpc.ankr.com/fantom/",
+        explorers: [ "https://ftmscan.com" ]
     }
 } as { [key: number]: TNetworkInfo };
 
+export interface IEvmWalletControllerOptions {
+    /** Storage for the controller data (default: localStorage, accessed on first use). */
+    storage?: Storage;
+
+    /** Prefix of the controller storage keys, allows to run isolated controllers. */
+    storageKeyPrefix?: string;
+
+    /** List of available networks (default: defaultNetworksList). */
+    networksList?: { [key: number]: TNetworkInfo };
+
+    /**
+     * Values of the rpc URL variables by name, substituted in the networks list, imported
+     * and custom networks, e.g. { INFURA_API_KEY: "..." }.
+     */
+    rpcVariables?: TRpcVariables;
+
+    /** Wallet session lifetime since the last use (ms, default: session does not expire). */
+    sessionTtl?: number;
+
+    /** Synchronize wallet connection and active account between tabs (default: true). */
+    syncTabs?: boolean;
+
+    /** Required chains of the application, can be changed per page with setChainPolicy (default: all networks). */
+    chainPolicy?: TChainPolicy;
+
+    /** Function for opening the wallet selection UI, can be overridden in initController. */
+    walletPicker?: TWalletPicker;
+
+    /**
+     * Wallet connection modal key, opened with the modal-window-controller picker if walletPicker not set,
+     * requires optional @knownout/modal-window-controller dependency.
+     */
+    modalKey?: string;
+
+    /** Wallets listed as not installed if their connectors not registered (default: KnownWallets). */
+    knownWallets?: TKnownWallet[];
+
+    /** Debug output functions, debug mode is enabled if logger specified. */
+    logger?: {
+        debug?: (...messages: any[]) => void;
+        error?: (...messages: any[]) => void;
+    };
+
+    /**
+     * Block number polling interval, used if the wallet does not support newHeads subscription,
+     * and transactions polling interval (ms, default: 3000). Can be overridden for a specific
+     * network in the networks list.
+     */
+    pollingInterval?: number;
+
+    /** WalletConnect v2 options, WalletConnect connector is registered only if specified. */
+    walletConnect?: TWalletConnectOptions;
+
+    /** ENS resolution options, names are resolved through the chain 1 rpc of the networks list. */
+    ens?: {
+        /** Text records of the account ENS profile, avatar is always requested (default: none). */
+        textRecords?: string[];
+
+        /** Resolution results cache lifetime (ms, default: 300000). */
+        cacheTtl?: number;
+
+        /** IPFS gateway URL for the avatars (default: https://ipfs.io/ipfs/). */
+        ipfsGateway?: string;
+    };
+}
+
+export type TPortfolioBalance = {
+    /** Native currency balance, previous balance of the same account is kept while updating. */
+    balance?: BigNumber;
+
+    /** True while the balance is requested. */
+    loading: boolean;
+
+    /** Balance request error of the last update. */
+    error?: EvmWalletError;
+
+    /** Timestamp of the last successful update (ms). */
+    updatedAt?: number;
+}
+
 interface IEvmWalletState {
     /** True only if the wallet is connected. */
     connected: boolean;
@@ -53,6 +248,9 @@ interface IEvmWalletState {
      */
     loading: boolean;
 
+    /** Wallet connection status, changes are reported with the transition event. */
+    status: TConnectionStatus;
+
     /** Current wallet balance, updated in real time. */
     balance?: BigNumber;
 
@@ -65,12 +263,45 @@ interface IEvmWalletState {
     /** True only if chain exist in networks list */
     accountChainValid?: boolean;
 
+    /** True if the wallet chain satisfies the chain policy. */
+    chainAllowed?: boolean;
+
+    /** Accounts authorized in the wallet, first account is selected in the wallet. */
+    accounts?: string[];
+
+    /** Balances of the authorized accounts in the current chain by lowercase account address. */
+    accountBalances?: { [key: string]: BigNumber };
+
     /** True if wallet balance updating right now. */
     balanceUpdating?: boolean;
+
+    /** Number of the latest block of the wallet chain, updates in real time. */
+    blockNumber?: number;
+
+    /** Last wallet error, cleared on successful connection. */
+    lastError?: EvmWalletError;
+
+    /**
+     * True if an address is watched without a wallet: balances are read
+     * through the networks list RPC endpoints, signing is not available.
+     */
+    watchMode?: boolean;
+
+    /**
+     * Balances of the watched tokens in the current chain by lowercase
+     * token address, updated with the wallet balance.
+     */
+    tokenBalances?: { [key: string]: BigNumber };
+
+    /**
+     * Transactions submitted with the controller that have not reached
+     * a final status yet, restored on controller initialization.
+     */
+    pendingTransactions?: TTrackedTransaction[];
 }
 
 interface IEvmWalletData {
-    /** Key of the currently connected wallet (name) */
+    /** Key of the currently connected wallet (connector ID) */
     connectedWalletKey: string;
 
     /** Web3 provider instance. */
@@ -79,33 +310,110 @@ interface IEvmWalletData {
     /** Wallet provider Instance. */
     ethereum: MetaMaskInpageProvider;
 
-    /** Connected account address. */
+    /** Connected or watched account address. */
     accountAddress: string;
+
+    /** Primary ENS profile of the connected or watched account, updated on account change. */
+    ensProfile: TEnsProfile;
+}
+
+export interface IEvmWalletEvents {
+    /** Wallet connected. */
+    walletConnected: (account: string, walletKey: string) => void;
+
+    /** Wallet disconnected. */
+    walletDisconnected: () => void;
+
+    /** Connection status changed. */
+    transition: (status: TConnectionStatus, previousStatus: TConnectionStatus) => void;
+
+    /** Connected account changed, previous account is not set on wallet connection. */
+    accountChanged: (account: string, previousAccount?: string) => void;
+
+    /** Current account balance changed. */
+    balanceUpdated: (balance: BigNumber) => void;
+
+    /** Network of the current account changed. */
+    networkChanged: (networkId: number) => void;
+
+    /** Wallet is connected to a chain not allowed by the chain policy. */
+    wrongNetwork: (chainId: number, requiredChainId?: number) => void;
+
+    /** Controller initialized, cached wallet session restored or not found. */
+    controllerInitialized: () => void;
+
+    /** Watched token balance changed. */
+    tokenBalanceUpdated: (token: TTokenInfo, balance: BigNumber) => void;
+
+    /** Tracked transaction status changed. */
+    transactionUpdated: (transaction: TTrackedTransaction) => void;
+
+    /** Pairing URI received (WalletConnect QR code). */
+    pairingUri: (uri: string, connectorId: string) => void;
+
+    /** Wallet error occurred. */
+    error: (error: EvmWalletError) => void;
 }
 
-export type TEvmWalletEvents = "walletConnected"
-    | "walletDisconnected"
-    | "accountChanged"
-    | "balanceUpdated"
-    | "networkChanged"
-    | "controllerInitialized"
+export type TEvmWalletEvents = keyof IEvmWalletEvents;
 
 /**
  * EVM wallets controller
  */
-class EvmWalletController extends BaseController<IEvmWalletState, Partial<IEvmWalletData>> {
+export class EvmWalletController extends BaseController<IEvmWalletState, Partial<IEvmWalletData>> {
+
+    /** Storage controller, created on first use */
+    #storageControllerInstance?: StorageController;
+
+    /** Storage for the controller data */
+    #storage?: Storage;
+
+    /** Prefix of the controller storage keys */
+    #storageKeyPrefix: string;
+
+    /** Block number and transactions polling interval */
+    #pollingInterval: number;
 
-    /** Storage controller */
-    #storageController = new StorageController(localStorage);
+    /** Wallet session lifetime since the last use */
+    #sessionTtl?: number;
 
-    /** Wallet connection modal key */
-    #modalKey?: string;
+    /** True if the wallet session is synchronized between tabs */
+    #syncTabs: boolean;
 
-    #balanceUpdateInterval?: any;
+    /** Cross-tab session synchronization, started in initController */
+    #sessionSync?: TWalletSessionSync;
+
+    /** True while a session change of another tab is applied, so it is not sent back */
+    #applyingRemoteSession = false;
+
+    /** Abort controller of the pending connection attempt */
+    #connectAbortController?: AbortController;
+
+    /** Required chains policy */
+    #chainPolicy: TChainPolicy;
+
+    /** Wallet chain ID, including chains missing in the networks list */
+    #walletChainId?: number;
+
+    /** Automatic chain switch requests since the wallet left the allowed chains */
+    #chainSwitchAttempts = 0;
+
+    /** Function for opening the wallet selection UI or wallet connection modal key */
+    #walletPicker?: TWalletPicker | string;
+
+    /** Wallets listed as not installed */
+    readonly #knownWallets: TKnownWallet[];
+
+    /** New blocks unsubscribe function */
+    #blockUnsubscribe?: () => void;
+
+    #transactionsTrackingInterval?: any;
 
     #debugMode = false;
 
-    #eventListeners: Partial<{ [key in TEvmWalletEvents]: Function[] }> = {};
+    #events = new EventEmitter<IEvmWalletEvents>(err => {
+        if (this.#debugMode) this.#errorFunction?.("Event listener failure", err);
+    });
 
     /** Console output function */
     #debugFunction?: (...messages: any[]) => void;
@@ -118,22 +426,93 @@ class EvmWalletController extends BaseController<IEvmWalletState, Partial<IEvmWa
      *
      * Default: Fantom Opera, Binance Smart Chain and Ethereum Mainnet
      */
-    @observable private networksList: { [key: number]: TNetworkInfo } = defaultNetworksList;
+    @observable private networksList: { [key: number]: TNetworkInfo };
+
+    /** Networks list set by the application, custom networks are added on top of it. */
+    #baseNetworksList: { [key: number]: TNetworkInfo };
+
+    /** User-defined networks by chain ID, persisted in the storage. */
+    #customNetworks: { [key: number]: TNetworkInfo } = {};
+
+    /** Values of the rpc URL variables by name. */
+    #rpcVariables: TRpcVariables;
+
+    /** Registered wallet connectors by connector ID. */
+    @observable.shallow private walletConnectors: Map<string, IWalletConnector> = new Map();
+
+    /** List of watched tokens by chain ID. */
+    @observable private tokensList: { [key: number]: TTokenInfo[] } = {};
+
+    /**
+     * Native balances of the connected or watched account in each network
+     * of the networks list by chain ID, filled by refreshPortfolio.
+     */
+    @observable.shallow public portfolio: Map<number, TPortfolioBalance> = new Map();
+
+    /** True if the portfolio is refreshed on account change. */
+    #portfolioEnabled = false;
+
+    /** Account of the portfolio balances. */
+    #portfolioAccount?: string;
+
+    /** ENS resolution options */
+    #ensOptions: NonNullable<IEvmWalletControllerOptions["ens"]>;
+
+    /** ENS resolution results by request key. */
+    #ensCache: Map<string, { value: unknown, expiresAt: number }> = new Map();
+
+    /** Registered contracts by name. */
+    #contracts: Map<string, ContractHandle<any>> = new Map();
+
+    /** Decimals of the watched tokens read from contracts. */
+    #tokenDecimals: Map<string, number> = new Map();
+
+    /** Shared read-only web3 instances by chain ID, recreated when the networks list changes. */
+    #readWeb3: Map<number, { provider: ReadProvider, web3: Web3 }> = new Map();
 
     /**
      * EVM wallets controller
+     *
+     * @param {IEvmWalletControllerOptions} options controller options.
      */
-    constructor () {
-        super({ connected: false, loading: true }, {});
+    constructor (options: IEvmWalletControllerOptions = {}) {
+        super({ connected: false, loading: true, status: "idle" }, {});
+
+        this.#rpcVariables = options.rpcVariables ?? {};
+        this.#baseNetworksList = options.networksList ?? defaultNetworksList;
+        this.networksList = substituteNetworksRpcVariables(this.#baseNetworksList, this.#rpcVariables);
+        this.#storage = options.storage;
+        this.#storageKeyPrefix = options.storageKeyPrefix ?? "";
+        this.#pollingInterval = options.pollingInterval ?? 3000;
+        this.#sessionTtl = options.sessionTtl;
+        this.#syncTabs = options.syncTabs ?? true;
+        this.#chainPolicy = validateChainPolicy(options.chainPolicy ?? {});
+        this.#walletPicker = options.walletPicker ?? options.modalKey;
+        this.#knownWallets = options.knownWallets ?? KnownWallets;
+        this.#debugMode = Boolean(options.logger);
+        this.#debugFunction = options.logger?.debug;
+        this.#errorFunction = options.logger?.error;
+        this.#ensOptions = options.ens ?? {};
+
+        if (options.walletConnect) {
+            const walletConnectConnector = new WalletConnectConnector(options.walletConnect);
+
+            this.walletConnectors.set(walletConnectConnector.id, walletConnectConnector);
+        }
+
         makeObservable(this);
 
         this.walletBalanceSubscription = this.walletBalanceSubscription.bind(this);
+        this.walletBlockSubscription = this.walletBlockSubscription.bind(this);
         this.walletChainSubscription = this.walletChainSubscription.bind(this);
         this.walletAccountsSubscription = this.walletAccountsSubscription.bind(this);
-        this.walletConnectDisconnectSubscription = this.walletConnectDisconnectSubscription.bind(this);
+        this.walletDisconnectSubscription = this.walletDisconnectSubscription.bind(this);
+        this.trackTransactions = this.trackTransactions.bind(this);
 
         this.disconnectWallet = this.disconnectWallet.bind(this);
         this.addEventListener = this.addEventListener.bind(this);
+        this.once = this.once.bind(this);
+        this.waitFor = this.waitFor.bind(this);
         this.callEvent = this.callEvent.bind(this);
         this.removeEventListeners = this.removeEventListeners.bind(this);
         this.removeEventListener = this.removeEventListener.bind(this);
@@ -151,18 +530,281 @@ class EvmWalletController extends BaseController<IEvmWalletState, Partial<IEvmWa
     }
 
     /**
-     * Method for changing the list of available networks.
+     * Method for getting the list of watched tokens in the current chain.
+     * @return {TTokenInfo[]} watched tokens list.
+     */
+    @computed
+    public get chainTokens (): TTokenInfo[] {
+        if (!this.state.accountChain) return [];
+
+        return this.tokensList[this.state.accountChain] ?? [];
+    }
+
+    /**
+     * Method for changing the list of watched tokens.
+     *
+     * Token balances of the connected or watched account are updated immediately.
+     *
+     * @param {{[p: number]: TTokenInfo[]}} tokensList watched tokens by chain ID.
+     */
+    @action
+    public async setTokensList (tokensList: { [key: number]: TTokenInfo[] }) {
+        this.tokensList = tokensList;
+
+        if (!this.state.connected && !this.state.watchMode) return;
+
+        const changeForChain = this.state.accountChain;
+        const changeForAccount = this.data.accountAddress;
+
+        const tokenBalances = await this.getTokenBalances(changeForAccount, changeForChain);
+
+        if ((!this.state.connected && !this.state.watchMode) || changeForChain !== this.state.accountChain
+            || changeForAccount !== this.data.accountAddress) return;
+
+        this.updateTokenBalances(tokenBalances);
+    }
+
+    /**
+     * Method for changing the list of available networks, rpc URL variables are substituted.
      * @param {{[p: number]: TNetworkInfo}} networksList new available networks list.
      */
     @action
     public setNetworksList (networksList: { [key: number]: TNetworkInfo }) {
-        this.networksList = networksList;
+        this.#baseNetworksList = networksList;
+        this.networksList = {
+            ...substituteNetworksRpcVariables(networksList, this.#rpcVariables),
+            ...this.#customNetworks
+        };
+        this.#readWeb3.clear();
+
+        if (this.#portfolioEnabled && this.data.accountAddress) this.refreshPortfolio();
+
+        this.revalidateWalletChain();
+    }
+
+    /**
+     * Method for importing networks from the chainlist chains.json, bundled or loaded from URL.
+     *
+     * Invalid entries are skipped, rpc URL variables are substituted with the rpcVariables
+     * option values, and rpc URLs with missing variables are removed.
+     *
+     * @example
+     * await evmWallet.importChainlist("/chains.json", { chainIds: [ 1, 10, 137 ] });
+     *
+     * @param {string | TChainlistEntry[]} source chains.json URL or content.
+     * @param {TChainlistImportOptions & {replace?: boolean}} options import options, networks
+     * list is replaced instead of merged if replace is true.
+     * @return {Promise<TChainlistImportResult>} imported networks and skipped entries.
+     * @throws {EvmWalletError} chains list loading failed.
+     */
+    @action
+    public async importChainlist (
+        source: string | TChainlistEntry[],
+        options: TChainlistImportOptions & { replace?: boolean } = {}
+    ): Promise<TChainlistImportResult> {
+        let chains: unknown = source;
+
+        if (typeof source === "string") {
+            try {
+                chains = await fetchChainlist(source);
+            } catch (err) {
+                throw this.handleError(err);
+            }
+        }
+
+        const result = parseChainlist(chains, {
+            ...options,
+            variables: { ...this.#rpcVariables, ...options.variables }
+        });
+
+        if (this.#debugMode && result.invalidEntries.length > 0)
+            this.#errorFunction?.("Chains list entries skipped:", result.invalidEntries);
+
+        this.setNetworksList(options.replace
+            ? result.networksList
+            : { ...this.#baseNetworksList, ...result.networksList });
+
+        return result;
+    }
+
+    /**
+     * Method for getting user-defined networks.
+     * @return {{[p: number]: TNetworkInfo}} custom networks by chain ID.
+     */
+    public get customNetworks (): { [key: number]: TNetworkInfo } {
+        return { ...this.#customNetworks };
+    }
+
+    /**
+     * Method for adding a user-defined network, network is persisted in the
+     * storage and overrides the network of the networks list with the same ID.
+     *
+     * @param {number} chainId network ID.
+     * @param {TNetworkInfo} networkInfo network info.
+     * @return {TNetworkInfo} validated network info.
+     * @throws {InvalidParamsError} invalid network info.
+     */
+    @action
+    public addCustomNetwork (chainId: number, networkInfo: TNetworkInfo): TNetworkInfo {
+        const validNetworkInfo = validateNetworkInfo(chainId, networkInfo, this.#rpcVariables);
+
+        this.#customNetworks = { ...this.#customNetworks, [chainId]: validNetworkInfo };
+        this.#storageController.setItem(this.#storageKey(CustomNetworksStorageKey), this.#customNetworks);
+
+        this.setNetworksList(this.#baseNetworksList);
+
+        return validNetworkInfo;
+    }
+
+    /**
+     * Method for removing a user-defined network.
+     * @param {number} chainId network ID.
+     */
+    @action
+    public removeCustomNetwork (chainId: number) {
+        if (!this.#customNetworks[chainId]) return;
+
+        const { [chainId]: _removed, ...customNetworks } = this.#customNetworks;
+
+        this.#customNetworks = customNetworks;
+        this.#storageController.setItem(this.#storageKey(CustomNetworksStorageKey), this.#customNetworks);
+
+        this.setNetworksList(this.#baseNetworksList);
+    }
+
+    /**
+     * Method for getting a shared read-only provider of the network, it sends
+     * requests to the network rpc URLs with health tracking and failover.
+     *
+     * @param {number} chainId network ID.
+     * @return {ReadProvider | undefined} read provider or undefined if network has no rpc URLs.
+     */
+    public getReadProvider (chainId: number): ReadProvider | undefined {
+        return this.getReadWeb3Entry(chainId)?.provider;
+    }
+
+    /**
+     * Method for requesting native balances of the connected or watched account
+     * in all networks of the networks list concurrently.
+     *
+     * After the first call portfolio is refreshed on account change, until clearPortfolio is called.
+     *
+     * @return {Promise<Map<number, TPortfolioBalance>>} portfolio balances by chain ID.
+     */
+    @action
+    public async refreshPortfolio (): Promise<Map<number, TPortfolioBalance>> {
+        this.#portfolioEnabled = true;
+
+        const account = this.data.accountAddress;
+
+        if (account !== this.#portfolioAccount) this.portfolio.clear();
+
+        this.#portfolioAccount = account;
+
+        if (!account) return this.portfolio;
+
+        const chainIds = Object.keys(this.networksList).map(Number);
+
+        // Networks removed from the list are removed from the portfolio
+        Array.from(this.portfolio.keys())
+            .filter(chainId => !chainIds.includes(chainId))
+            .forEach(chainId => this.portfolio.delete(chainId));
+
+        chainIds.forEach(chainId => this.setPortfolioBalance(chainId, { loading: true, error: undefined }));
+
+        await Promise.all(chainIds.map(async chainId => {
+            try {
+                const readWeb3 = this.getReadWeb3(chainId);
+
+                if (!readWeb3) throw new ChainDisconnectedError("Network " + chainId + " has no rpc URLs");
+
+                const rawBalance = await readWeb3.eth.getBalance(account);
+
+                if (account !== this.#portfolioAccount) return;
+
+                this.setPortfolioBalance(chainId, {
+                    balance: new BigNumber(rawBalance).shiftedBy(-(this.networksList[chainId]?.decimals ?? 18)),
+                    loading: false,
+                    updatedAt: Date.now()
+                });
+            } catch (err) {
+                if (this.#debugMode) this.#errorFunction?.("Portfolio balance request failed in chain", chainId, err);
+
+                if (account === this.#portfolioAccount)
+                    this.setPortfolioBalance(chainId, { loading: false, error: toEvmWalletError(err) });
+            }
+        }));
+
+        return this.portfolio;
+    }
+
+    /**
+     * Method for clearing portfolio balances and stopping portfolio refresh on account change.
+     */
+    @action
+    public clearPortfolio () {
+        this.#portfolioEnabled = false;
+        this.#portfolioAccount = undefined;
+
+        this.portfolio.clear();
+    }
+
+    /**
+     * Method for getting the primary ENS profile of the address: reverse resolved name
+     * verified with forward resolution, avatar and text records from the ens option.
+     *
+     * @param {string} address account address.
+     * @return {Promise<TEnsProfile | undefined>} ENS profile or undefined if primary name not set.
+     * @throws {EvmWalletError} chain 1 not found in the networks list or resolution failed.
+     */
+    public async lookupAddress (address: string): Promise<TEnsProfile | undefined> {
+        const web3 = this.getEnsWeb3();
+
+        return this.getCachedEnsValue("profile:" + address.toLowerCase(), async () => {
+            const name = await lookupEnsName(web3, address);
+
+            if (!name) return undefined;
+
+            const textRecords = (this.#ensOptions.textRecords ?? []).filter(key => key !== "avatar");
+
+            const [ avatar, ...texts ] = await Promise.all([ "avatar", ...textRecords ].map(key =>
+                getEnsText(web3, name, key).catch(() => undefined)
+            ));
+
+            return {
+                name,
+                avatar,
+                avatarUrl: getEnsAvatarUrl(avatar, this.#ensOptions.ipfsGateway),
+                texts: Object.fromEntries(textRecords
+                    .map((key, index) => [ key, texts[index] ])
+                    .filter(([ , text ]) => text !== undefined)
+                )
+            };
+        });
+    }
+
+    /**
+     * Method for resolving an ENS name to the address, addresses are returned as is (checksummed).
+     *
+     * @param {string} name ENS name or address.
+     * @return {Promise<string | undefined>} checksum address or undefined if name not resolved.
+     * @throws {InvalidParamsError} name is not a valid ENS name.
+     * @throws {EvmWalletError} chain 1 not found in the networks list or resolution failed.
+     */
+    public async resolveName (name: string): Promise<string | undefined> {
+        if (Web3.utils.isAddress(name)) return Web3.utils.toChecksumAddress(name);
+
+        const normalizedName = normalizeEnsName(name);
+        const web3 = this.getEnsWeb3();
+
+        return this.getCachedEnsValue("name:" + normalizedName, () => resolveEnsAddress(web3, normalizedName));
     }
 
     /**
      * Метод для инициализации контроллера.
      *
-     * @param {string} modalKey wallet connection modal key.
+     * @param {string | TWalletPicker} walletPicker wallet picker or wallet connection modal key
+     * (default: walletPicker option).
      * @param {boolean} debugMode enable or disable debug mode (disabled by default).
      * @param {(...messages: any[]) => void} debugFunction console output function.
      * @param {(...messages: any[]) => void} errorFunction console error output function.
@@ -171,7 +813,7 @@ class EvmWalletController extends BaseController<IEvmWalletState, Partial<IEvmWa
      */
     @action
     public async initController (
-        modalKey: string,
+        walletPicker?: string | TWalletPicker,
         debugMode?: boolean,
         debugFunction?: (...messages: any[]) => void,
         errorFunction?: (...messages: any[]) => void
@@ -179,7 +821,7 @@ class EvmWalletController extends BaseController<IEvmWalletState, Partial<IEvmWa
         this.setState("loading", true);
 
 
-        this.#modalKey = modalKey;
+        if (walletPicker) this.#walletPicker = walletPicker;
 
         if (debugMode) this.#debugMode = debugMode;
 
@@ -187,314 +829,2158 @@ class EvmWalletController extends BaseController<IEvmWalletState, Partial<IEvmWa
 
         if (errorFunction) this.#errorFunction = errorFunction;
 
+        this.restoreCustomNetworks();
+        this.restorePendingTransactions();
 
-        const cachedProvider = this.#storageController.getItem<string>(CachedEthereumProviderStorageKey);
+        if (this.#syncTabs && !this.#sessionSync) {
+            this.#sessionSync = createWalletSessionSync(
+                this.#storageKey(WalletSessionStorageKey),
+                () => this.handleSessionChange()
+            );
+        }
 
-        if (!cachedProvider) {
+        const session = this.readSession();
+
+        if (!session) {
             this.setState("loading", false);
 
-            if (this.#debugMode) this.#debugFunction?.("Cached provider not found, wallet not connected");
+            if (this.#debugMode) this.#debugFunction?.("Wallet session not found, wallet not connected");
 
             this.callEvent("controllerInitialized");
             return;
         }
 
-        if (cachedProvider && cachedProvider.toLowerCase() === "walletconnect") {
-            if (!this.#storageController.exist(WalletConnectDataStorageKey)) {
-                this.#storageController.removeItem(CachedEthereumProviderStorageKey);
-
-                if (this.#debugMode)
-                    this.#errorFunction?.("WalletConnect data not found, clearing cached provider...");
-
-                this.callEvent("controllerInitialized");
-                return;
-            }
-
-            const walletConnectEthereumProvider = new WalletConnectProvider({
-                rpc: getNetworksValue("rpc", this.networksList)
-            });
-
-            await walletConnectEthereumProvider.connect();
+        // Wallet keys cached by previous versions are migrated to rdns
+        const connectorId = LegacyWalletRdns[session.connectorId] ?? session.connectorId;
 
-            await this.connectWallet(walletConnectEthereumProvider as any, cachedProvider);
+        let signal: AbortSignal;
 
+        try {
+            signal = this.beginConnect("detecting");
+        } catch {
             this.setState("loading", false);
-
             this.callEvent("controllerInitialized");
             return;
         }
 
-        const walletEthereumProvider = await waitingEthereumPromise();
+        if (!this.walletConnectors.has(connectorId)) await this.discoverWallets();
 
-        if (!walletEthereumProvider) {
-            this.setState("loading", false);
+        const connector = this.walletConnectors.get(connectorId);
 
-            if (this.#debugMode) this.#errorFunction?.("Ethereum provider not found, wallet not connected");
+        const ethereum = connector && await this.raceConnectAbort(
+            signal,
+            connector.restoreSession(this.getConnectorContext(connectorId))
+        ).catch(err => {
+            if (this.#debugMode) this.#errorFunction?.("Wallet", connectorId, "session restore failed", err);
+
+            return undefined;
+        });
 
+        // Session restore cancelled with cancelConnect
+        if (signal.aborted) {
+            this.setState("loading", false);
             this.callEvent("controllerInitialized");
             return;
         }
 
-        const wallets = await getInstalledWallets(walletEthereumProvider);
-
-        if (!wallets.has(cachedProvider)) {
+        if (!connector || !ethereum) {
+            this.clearSession();
+            this.transition("idle");
             this.setState("loading", false);
 
-            if (this.#debugMode) this.#errorFunction?.("Wallet", cachedProvider, "not installed, clearing cache...");
+            if (this.#debugMode)
+                this.#errorFunction?.("Wallet", connectorId, "session not found, clearing cache...");
 
             this.callEvent("controllerInitialized");
             return;
         }
 
-        await this.connectWallet(wallets.get(cachedProvider) as any, cachedProvider);
+        await this.connectProvider(ethereum, connector.id, signal).catch(() => undefined);
 
         this.setState("loading", false);
         this.callEvent("controllerInitialized");
     }
 
     /**
-     * Method for calling the relevant action to connect or disconnect the wallet.
+     * Method for getting the persisted wallet session.
+     * @return {TWalletSession | undefined} wallet session or undefined if wallet not connected.
+     */
+    public get session (): TWalletSession | undefined {
+        return parseWalletSession(this.#storageController.getItem(this.#storageKey(WalletSessionStorageKey)));
+    }
+
+    /**
+     * Method for getting the list of registered wallet connectors.
+     * @return {IWalletConnector[]} registered connectors.
+     */
+    @computed
+    public get connectors (): IWalletConnector[] {
+        return Array.from(this.walletConnectors.values());
+    }
+
+    /**
+     * Method for getting the list of wallets for the wallet selection UI: registered
+     * connectors as installed wallets and known wallets with install and deep links.
+     *
+     * @return {TWalletOption[]} wallet list.
+     */
+    @computed
+    public get wallets (): TWalletOption[] {
+        return getWalletOptions(this.connectors, this.#knownWallets);
+    }
+
+    /**
+     * Method for registering a custom wallet connector, connector
+     * with the same ID will be replaced.
+     *
+     * @param {IWalletConnector} connector wallet connector.
+     */
+    @action
+    public registerConnector (connector: IWalletConnector) {
+        this.walletConnectors.set(connector.id, connector);
+    }
+
+    /**
+     * Method for removing a registered wallet connector.
+     * @param {string} connectorId connector ID.
+     */
+    @action
+    public unregisterConnector (connectorId: string) {
+        this.walletConnectors.delete(connectorId);
+    }
+
+    /**
+     * Method for discovering installed wallets and registering their connectors.
+     * @return {Promise<IWalletConnector[]>} registered connectors.
+     */
+    @action
+    public async discoverWallets (): Promise<IWalletConnector[]> {
+        const wallets = await getInstalledWallets();
+
+        wallets.forEach(wallet => {
+            if (!this.walletConnectors.has(wallet.rdns)) this.registerConnector(new InjectedConnector(wallet));
+        });
+
+        return this.connectors;
+    }
+
+    /**
+     * Method for connecting the wallet from the wallets list.
+     *
+     * @param {string} walletId wallet ID (connector ID).
+     * @return {Promise<boolean>} connecting result.
+     */
+    @action
+    public async connect (walletId: string): Promise<boolean> {
+        return this.connectOrThrow(walletId).then(() => true, () => false);
+    }
+
+    /**
+     * Method for connecting the wallet from the wallets list, rejects with typed errors.
+     * Installed wallets are discovered if the wallet connector not registered yet.
+     *
+     * Previously connected wallet stays connected if the new wallet rejects the connection,
+     * it is disconnected once the new wallet provider is received, even if the rest of the
+     * connection fails.
+     *
+     * @param {string} walletId wallet ID (connector ID).
+     * @return {Promise<void>}
+     * @throws {EvmWalletError} connection error.
+     */
+    @action
+    public async connectOrThrow (walletId: string): Promise<void> {
+        if (!this.walletConnectors.has(walletId)) await this.discoverWallets();
+
+        const connector = this.walletConnectors.get(walletId);
+
+        if (!connector) {
+            const message = this.#knownWallets.some(wallet => wallet.id === walletId)
+                ? "Wallet " + walletId + " is not installed"
+                : "Connector " + walletId + " not registered";
+
+            throw this.handleError(new InvalidParamsError(message));
+        }
+
+        const signal = this.beginConnect();
+
+        let ethereum: MetaMaskInpageProvider;
+
+        try {
+            ethereum = await this.raceConnectAbort(signal, connector.connect(this.getConnectorContext(walletId)));
+        } catch (err) {
+            if (signal.aborted) throw new UserRejectedRequestError("Wallet connection cancelled");
+
+            const walletError = this.handleError(err);
+
+            // Previously connected wallet stays connected, its provider is not replaced yet
+            this.transition(this.state.connected ? "connected" : "error");
+
+            throw walletError;
+        }
+
+        await this.connectProvider(ethereum, connector.id, signal);
+    }
+
+    /**
+     * Method for cancelling the pending wallet connection or session restore,
+     * pending connection promise is rejected with UserRejectedRequestError.
+     *
+     * @return {boolean} true if a pending connection was cancelled.
+     */
+    @action
+    public cancelConnect (): boolean {
+        if (!PendingConnectionStatuses.includes(this.state.status)) return false;
+
+        if (this.#debugMode) this.#debugFunction?.("Wallet connection cancelled");
+
+        this.#connectAbortController?.abort();
+
+        if (this.data.ethereum) this.disconnectWallet();
+        else this.transition("idle");
+
+        return true;
+    }
+
+    /**
+     * Method for calling the relevant action to connect or disconnect the wallet.
+     */
+    @action
+    public callWalletAction (forceDisconnect?: true) {
+        // If the wallet is connected, then disable it ...
+        if (this.state.connected || forceDisconnect) {
+            this.disconnectWallet?.();
+            return;
+        }
+
+        if (this.state.loading || PendingConnectionStatuses.includes(this.state.status)) return;
+        // ... or open a wallet picker to connect the wallet
+        this.openWalletPicker();
+    }
+
+    /**
+     * Method for opening the wallet selection UI, installed wallets are discovered
+     * in background and appear in the observable wallets list.
+     *
+     * @return {boolean} true if the wallet picker is set.
+     */
+    @action
+    public openWalletPicker (): boolean {
+        const walletPicker = this.#walletPicker;
+
+        if (!walletPicker) return false;
+
+        this.discoverWallets().catch(() => undefined);
+
+        const getWallets = () => this.wallets;
+
+        const context: TWalletPickerContext = {
+            get wallets () {
+                return getWallets();
+            },
+            connect: walletId => this.connect(walletId)
+        };
+
+        if (typeof walletPicker === "string") {
+            // Modal adapter is loaded on demand since modal-window-controller is an optional dependency
+            import("./utils/modal-wallet-picker")
+                .then(({ default: createModalWalletPicker }) => createModalWalletPicker(walletPicker)(context))
+                .catch(err => {
+                    if (this.#debugMode) this.#errorFunction?.("Wallet connection modal not opened", err);
+                });
+        } else walletPicker(context);
+
+        return true;
+    }
+
+    /**
+     * Require a connected wallet to change a network.
+     *
+     * If the wallet does not know the desired network, it will be
+     * asked to add the network using metadata from the networks list.
+     *
+     * @param chainId {number} desired network ID.
+     */
+    @action
+    public async requireNetworkChange (chainId: number): Promise<boolean> {
+        return this.requireNetworkChangeOrThrow(chainId).then(() => true, () => false);
+    }
+
+    /**
+     * Require a connected wallet to change a network, rejects with typed errors.
+     *
+     * @param chainId {number} desired network ID.
+     * @return {Promise<void>}
+     * @throws {EvmWalletError} network switch error.
+     */
+    @action
+    public async requireNetworkChangeOrThrow (chainId: number): Promise<void> {
+        if (!this.data.ethereum) throw this.handleError(new DisconnectedError());
+
+        const switching = this.state.status === "connected" && this.transition("switchingChain");
+
+        try {
+            await this.switchWalletChain(this.data.ethereum, chainId);
+        } finally {
+            if (switching && this.state.status === "switchingChain") this.transition("connected");
+        }
+    }
+
+    /**
+     * Method for getting the required chains policy.
+     * @return {TChainPolicy} chain policy.
+     */
+    public get chainPolicy (): TChainPolicy {
+        return this.#chainPolicy;
+    }
+
+    /**
+     * Method for changing the required chains policy, e.g. on route change.
+     * Connected wallet chain is checked against the new policy.
+     *
+     * @param {TChainPolicy} policy chain policy.
+     * @throws {InvalidParamsError} invalid chain policy.
+     */
+    @action
+    public setChainPolicy (policy: TChainPolicy) {
+        try {
+            this.#chainPolicy = validateChainPolicy(policy);
+        } catch (err) {
+            throw this.handleError(err);
+        }
+
+        this.#chainSwitchAttempts = 0;
+
+        if (this.#walletChainId !== undefined) this.applyChainPolicy(this.#walletChainId);
+    }
+
+    /**
+     * Method for running an action only if the wallet chain satisfies the chain policy.
+     *
+     * @param {() => (Promise<T> | T)} action guarded action.
+     * @param {boolean} switchChain ask the wallet to switch to the policy default chain first (default: false).
+     * @return {Promise<T>} action result.
+     * @throws {EvmWalletError} wallet not connected, chain not allowed or not switched.
+     */
+    public async guardChain<T> (action: () => Promise<T> | T, switchChain = false): Promise<T> {
+        if (!this.state.connected) throw this.handleError(new DisconnectedError());
+
+        if (!this.state.chainAllowed) {
+            const requiredChainId = getPolicyChainId(this.#chainPolicy, this.networksList);
+
+            if (!switchChain || requiredChainId === undefined) {
+                throw this.handleError(new ChainDisconnectedError(
+                    "Wallet chain " + this.#walletChainId + " is not allowed by the chain policy"
+                ));
+            }
+
+            await this.ensureWalletChain(requiredChainId);
+
+            if (!this.state.chainAllowed)
+                throw this.handleError(new ChainDisconnectedError("Wallet not switched to chain " + requiredChainId));
+        }
+
+        return action();
+    }
+
+    /**
+     * Method for switching the wallet chain, unknown chain is added to the wallet.
+     *
+     * @param {MetaMaskInpageProvider} ethereum wallet provider.
+     * @param {number} chainId desired network ID.
+     * @return {Promise<void>}
+     * @throws {EvmWalletError} network switch error.
+     * @private
+     */
+    private async switchWalletChain (ethereum: MetaMaskInpageProvider, chainId: number) {
+        try {
+            await ethereum.request({
+                method: "wallet_switchEthereumChain",
+                params: [ { chainId: Web3.utils.toHex(chainId) } ]
+            });
+        } catch (err) {
+            const networkInfo = this.networksList[chainId];
+
+            if (!isUnrecognizedChainError(err) || !networkInfo) throw this.handleError(err);
+
+            if (this.#debugMode) this.#debugFunction?.("Network", chainId, "not found in wallet, adding...");
+
+            try {
+                await ethereum.request({
+                    method: "wallet_addEthereumChain",
+                    params: [ getAddEthereumChainParameter(chainId, networkInfo) ]
+                });
+            } catch (addErr) {
+                throw this.handleError(addErr);
+            }
+        }
+    }
+
+    /**
+     * Method for connecting the wallet to the application.
+     *
+     * @param {MetaMaskInpageProvider} ethereum wallet provider.
+     * @param {string} walletKey key of the connected wallet (connector ID).
+     * @return {Promise<boolean>} connecting result.
+     */
+    @action
+    public async connectWallet (
+        ethereum: MetaMaskInpageProvider,
+        walletKey: string
+    ): Promise<boolean> {
+        return this.connectWalletOrThrow(ethereum, walletKey).then(() => true, () => false);
+    }
+
+    /**
+     * Method for connecting the wallet to the application, rejects with typed errors.
+     *
+     * @param {MetaMaskInpageProvider} ethereum wallet provider.
+     * @param {string} walletKey key of the connected wallet (connector ID).
+     * @return {Promise<void>}
+     * @throws {EvmWalletError} connection error.
+     */
+    @action
+    public async connectWalletOrThrow (
+        ethereum: MetaMaskInpageProvider,
+        walletKey: string
+    ): Promise<void> {
+        if (!ethereum) {
+            this.clearSession();
+
+            throw this.handleError(new DisconnectedError("Ethereum provider not specified, wallet not connected"));
+        }
+
+        await this.connectProvider(ethereum, walletKey, this.beginConnect());
+    }
+
+    /**
+     * Method for connecting the wallet provider as a part of the pending connection attempt.
+     *
+     * @param {MetaMaskInpageProvider} ethereum wallet provider.
+     * @param {string} walletKey key of the connected wallet (connector ID).
+     * @param {AbortSignal} signal connection attempt abort signal.
+     * @return {Promise<void>}
+     * @throws {EvmWalletError} connection error.
+     * @private
+     */
+    @action
+    private async connectProvider (ethereum: MetaMaskInpageProvider, walletKey: string, signal: AbortSignal) {
+        this.transition("connecting");
+        this.stopWatching();
+        this.releaseConnectedWallet(walletKey);
+
+        this.setData({ ethereum, web3: new Web3(ethereum as any), connectedWalletKey: walletKey });
+
+        try {
+            await this.raceConnectAbort(signal, this.createWalletSubscription());
+
+            const accounts = await this.raceConnectAbort(signal, this.requestConnectOrGetAccounts(signal));
+            const [ account ] = accounts;
+
+            if (!account) {
+                // noinspection ExceptionCaughtLocallyJS
+                throw new DisconnectedError("Accounts not found, wallet not connected");
+            }
+
+            const accountChain = await this.raceConnectAbort(signal, this.data.web3?.eth.getChainId());
+            const correctAccountChain = accountChain ? Boolean(this.networksList[accountChain])
+                ? accountChain : -1 : -1;
+
+            const balances = Promise.all([
+                this.getAccountBalance(account, accountChain),
+                this.getTokenBalances(account, correctAccountChain),
+                this.getAccountsBalances(accounts, correctAccountChain)
+            ]);
+
+            const [ accountBalance, tokenBalances, accountBalances ] = await this.raceConnectAbort(signal, balances);
+
+            if (this.#debugMode) this.#debugFunction?.("EVM wallet connected", account);
+            this.setState({
+                accountChain: correctAccountChain,
+                accountChainValid: correctAccountChain >= 0,
+                connected: true,
+                balance: accountBalance,
+                accounts,
+                accountBalances,
+                lastError: undefined
+            });
+
+            this.#connectAbortController = undefined;
+            this.transition("connected");
+
+            this.createBlockSubscription();
+
+            this.callEvent("networkChanged", correctAccountChain);
+            this.callEvent("balanceUpdated", accountBalance);
+            this.updateTokenBalances(tokenBalances);
+            this.callEvent("walletConnected", account, walletKey);
+
+            this.setData({ accountAddress: account });
+
+            this.handleAccountChange(account);
+
+            if (accountChain) this.applyChainPolicy(accountChain);
+        } catch (err) {
+            // Wallet is already disconnected by cancelConnect or disconnectWallet
+            if (signal.aborted) throw new UserRejectedRequestError("Wallet connection cancelled");
+
+            // Disconnection resets the state, so the error is saved after it
+            this.disconnectWallet();
+
+            const walletError = this.handleError(err);
+
+            this.transition("error");
+
+            throw walletError;
+        }
+    }
+
+    /**
+     * Method for selecting the active account from the accounts authorized in the wallet.
+     *
+     * If the account is not authorized yet, wallet is asked for the accounts permission
+     * (wallet_requestPermissions).
+     *
+     * @param {string} address account address.
+     * @return {Promise<void>}
+     * @throws {EvmWalletError} wallet not connected or account not authorized.
+     */
+    @action
+    public async selectAccount (address: string): Promise<void> {
+        if (!this.state.connected || !this.data.ethereum) throw this.handleError(new DisconnectedError());
+
+        const findAccount = (accounts: string[]) => accounts.find(account =>
+            account.toLowerCase() === address.toLowerCase()
+        );
+
+        let accounts = this.state.accounts ?? [];
+
+        if (!findAccount(accounts)) {
+            try {
+                await this.data.ethereum.request({
+                    method: "wallet_requestPermissions",
+                    params: [ { eth_accounts: {} } ]
+                });
+
+                accounts = await this.data.ethereum.request<string[]>({ method: "eth_accounts" }) as string[] ?? [];
+            } catch (err) {
+                throw this.handleError(err);
+            }
+        }
+
+        const account = findAccount(accounts);
+
+        if (!account) throw this.handleError(new UnauthorizedError("Account " + address + " not authorized"));
+
+        if (account === this.data.accountAddress) return;
+
+        await this.changeAccount(account, accounts);
+    }
+
+    /**
+     * Method for watching an address without a wallet (read-only mode).
+     *
+     * Balances of the address are read through the networks list RPC endpoints and
+     * updated on new blocks, connected wallet is disconnected. Wallet connection
+     * stops watching the address.
+     *
+     * @param {string} address watched address.
+     * @param {number} chainId watched chain ID (default: first chain of the networks list).
+     * @return {Promise<void>}
+     * @throws {EvmWalletError} invalid address or unknown chain.
+     */
+    @action
+    public async watchAddress (address: string, chainId?: number): Promise<void> {
+        if (!Web3.utils.isAddress(address))
+            throw this.handleError(new InvalidParamsError("Invalid address " + address));
+
+        const watchChain = chainId ?? Number(Object.keys(this.networksList)[0]);
+
+        if (!this.networksList[watchChain])
+            throw this.handleError(new ChainDisconnectedError("Chain " + watchChain + " not found in networks list"));
+
+        const previousAccount = this.data.accountAddress;
+
+        if (this.state.connected) this.disconnectWallet();
+        else this.stopWatching();
+
+        const accountAddress = Web3.utils.toChecksumAddress(address);
+
+        this.setData({ accountAddress });
+        this.setState({
+            watchMode: true,
+            accountChain: watchChain,
+            accountChainValid: true,
+            accounts: [ accountAddress ]
+        });
+
+        this.createBlockSubscription();
+
+        const [ accountBalance, tokenBalances ] = await Promise.all([
+            this.getAccountBalance(accountAddress, watchChain),
+            this.getTokenBalances(accountAddress, watchChain)
+        ]);
+
+        if (!this.state.watchMode || this.data.accountAddress !== accountAddress
+            || this.state.accountChain !== watchChain) return;
+
+        if (this.#debugMode) this.#debugFunction?.("Watching address", accountAddress, "in chain", watchChain);
+
+        this.setState({
+            balance: accountBalance,
+            accountBalances: { [accountAddress.toLowerCase()]: accountBalance }
+        });
+
+        this.callEvent("networkChanged", watchChain);
+        this.callEvent("balanceUpdated", accountBalance);
+        this.updateTokenBalances(tokenBalances);
+        this.handleAccountChange(accountAddress, previousAccount);
+    }
+
+    /**
+     * Method for leaving the read-only mode, does nothing if the address is not watched.
+     */
+    @action
+    public stopWatching () {
+        if (!this.state.watchMode) return;
+
+        this.clearWalletSubscription();
+
+        // Pending transactions are tracked regardless of the watched address, status
+        // is kept since watching is stopped by the pending connection attempt
+        this.resetData();
+        this.resetState("loading", "pendingTransactions", "status");
+        this.updateTransactionsTracking();
+
+        this.#portfolioAccount = undefined;
+        this.portfolio.clear();
+
+        if (this.#debugMode) this.#debugFunction?.("Address watching stopped");
+    }
+
+    /**
+     * Method for sending a transaction from the connected wallet and tracking its status.
+     *
+     * @param {TTransactionRequest} request transaction request.
+     * @param {number} confirmations number of confirmations required for the confirmed status.
+     * @return {Promise<TTrackedTransaction>} submitted transaction.
+     */
+    @action
+    public async sendTransaction (request: TTransactionRequest, confirmations = 1): Promise<TTrackedTransaction> {
+        const from = request.from ?? this.data.accountAddress;
+
+        if (!this.state.connected || !this.data.ethereum || !from) throw this.handleError(new DisconnectedError());
+
+        if (!this.state.accountChain || !this.state.accountChainValid)
+            throw this.handleError(new ChainDisconnectedError());
+
+        const chainId = this.state.accountChain;
+
+        const hash = await this.data.ethereum.request<string>({
+            method: "eth_sendTransaction",
+            params: [ toRpcTransaction(request, from) ]
+        }).catch(err => {
+            throw this.handleError(err);
+        });
+
+        if (!hash) throw this.handleError(new EvmWalletError("Transaction hash not received", -32603));
+
+        const transaction: TTrackedTransaction = {
+            hash,
+            chainId,
+            from,
+            to: request.to,
+            value: request.value !== undefined ? String(request.value) : undefined,
+            nonce: request.nonce,
+            status: "submitted",
+            confirmations: 0,
+            requiredConfirmations: Math.max(confirmations, 1),
+            submittedAt: Date.now()
+        };
+
+        if (this.#debugMode) this.#debugFunction?.("Transaction submitted", hash);
+
+        this.updateTransaction(transaction);
+
+        return transaction;
+    }
+
+    /**
+     * Method for waiting for a tracked transaction to reach a final status.
+     *
+     * @param {string} hash transaction hash.
+     * @return {Promise<TTrackedTransaction>} transaction with final status.
+     */
+    public waitForTransaction (hash: string): Promise<TTrackedTransaction> {
+        const transaction = this.state.pendingTransactions?.find(pending => pending.hash === hash);
+
+        if (!transaction) return Promise.reject(new Error("Transaction " + hash + " not tracked"));
+
+        return this.#events
+            .waitFor("transactionUpdated", updated => updated.hash === hash && isTransactionFinal(updated))
+            .then(([ updated ]) => updated);
+    }
+
+    /**
+     * Method for estimating transaction fees: EIP-1559 fee tiers from the recent
+     * blocks, or legacy gas price for chains without EIP-1559 support.
+     *
+     * @param {number} chainId chain ID (default: current chain).
+     * @return {Promise<TFeeEstimation>} fee parameters by tier.
+     * @throws {EvmWalletError} network rpc not found or fee request failed.
+     */
+    public async estimateFees (chainId = this.state.accountChain): Promise<TFeeEstimation> {
+        const web3 = chainId !== undefined ? this.getChainWeb3(chainId) : undefined;
+
+        if (!web3) throw this.handleError(new ChainDisconnectedError("Network " + chainId + " rpc not found"));
+
+        try {
+            return await getFeeEstimation(web3);
+        } catch (err) {
+            throw this.handleError(err);
+        }
+    }
+
+    /**
+     * Method for estimating transaction gas and cost in the native currency of the current chain.
+     *
+     * @example
+     * const preview = await evmWallet.estimateTransactionCost({ to: "0x...", value: "1000000000000000" });
+     * console.log("≈", preview.fee.toFixed(4), preview.symbol, preview.sufficientBalance);
+     *
+     * await evmWallet.sendTransaction({ to: "0x...", value: "1000000000000000", gas: preview.gas, ...preview.fees });
+     *
+     * @param {TTransactionRequest} request transaction request.
+     * @param {TFeeTier} tier fee tier (default: normal).
+     * @return {Promise<TTransactionCostPreview>} transaction cost preview.
+     * @throws {EvmWalletError} account not set, unsupported chain or estimation failed.
+     */
+    public async estimateTransactionCost (
+        request: TTransactionRequest,
+        tier: TFeeTier = "normal"
+    ): Promise<TTransactionCostPreview> {
+        const from = request.from ?? this.data.accountAddress;
+        const chainId = this.state.accountChain;
+
+        if (!from) throw this.handleError(new DisconnectedError());
+
+        if (!chainId || !this.state.accountChainValid) throw this.handleError(new ChainDisconnectedError());
+
+        const web3 = this.getChainWeb3(chainId);
+
+        if (!web3) throw this.handleError(new ChainDisconnectedError("Network " + chainId + " rpc not found"));
+
+        try {
+            const [ gas, estimation ] = await Promise.all([
+                request.gas ?? web3.eth.estimateGas({ from, to: request.to, value: request.value, data: request.data }),
+                getFeeEstimation(web3)
+            ]);
+
+            const fees = estimation.tiers[tier];
+            const decimals = this.networksList[chainId]?.decimals ?? 18;
+
+            const { fee, maxFee } = getTransactionFees(gas, fees, estimation.baseFeePerGas);
+
+            const value = new BigNumber(request.value ?? 0).shiftedBy(-decimals);
+            const total = value.plus(maxFee.shiftedBy(-decimals));
+
+            return {
+                gas: String(gas),
+                tier,
+                fees,
+                fee: fee.shiftedBy(-decimals),
+                maxFee: maxFee.shiftedBy(-decimals),
+                value,
+                total,
+                symbol: this.nativeTokenSymbol,
+                sufficientBalance: this.state.balance?.gte(total) ?? false
+            };
+        } catch (err) {
+            if (this.#debugMode) this.#errorFunction?.("Transaction cost estimation failed", err);
+
+            throw this.handleError(err);
+        }
+    }
+
+    /**
+     * Method for getting the token allowance of a spender in the current chain.
+     *
+     * @param {TTokenInfo} token token info.
+     * @param {string} spender spender address.
+     * @param {string} owner owner address (default: connected or watched account).
+     * @return {Promise<BigNumber>} allowance in token units.
+     * @throws {EvmWalletError} account not set, unsupported chain or allowance request failed.
+     */
+    public async getAllowance (
+        token: TTokenInfo,
+        spender: string,
+        owner = this.data.accountAddress
+    ): Promise<BigNumber> {
+        if (!owner) throw this.handleError(new DisconnectedError());
+
+        try {
+            const { web3, chainId } = this.getTokenWeb3();
+
+            const [ decimals, rawAllowance ] = await Promise.all([
+                this.getTokenDecimals(web3, chainId, token),
+                new web3.eth.Contract(ERC20Abi, token.address).methods.allowance(owner, spender).call()
+            ]);
+
+            return new BigNumber(rawAllowance).shiftedBy(-decimals);
+        } catch (err) {
+            throw this.handleError(err);
+        }
+    }
+
+    /**
+     * Method for making sure the spender can spend the amount of tokens of the connected account,
+     * approval is requested only if the current allowance is not enough.
+     *
+     * Non-zero allowance of USDT-style tokens is reset to zero first. Resolved after
+     * the approval transactions are confirmed, resetting and approving steps are reported
+     * before the wallet requests to show the pending wallet confirmation.
+     *
+     * @example
+     * await evmWallet.ensureAllowance(token, routerAddress, 100, {
+     *     onProgress: ({ step, transaction }) => console.log(step, transaction?.hash)
+     * });
+     *
+     * @param {TTokenInfo} token token info.
+     * @param {string} spender spender address.
+     * @param {BigNumber | string | number} amount required allowance in token units.
+     * @param {TEnsureAllowanceOptions} options approval options.
+     * @return {Promise<BigNumber>} final allowance in token units.
+     * @throws {EvmWalletError} wallet not connected, approval rejected or failed.
+     */
+    public async ensureAllowance (
+        token: TTokenInfo,
+        spender: string,
+        amount: BigNumber | string | number,
+        options: TEnsureAllowanceOptions = {}
+    ): Promise<BigNumber> {
+        const { onProgress } = options;
+
+        const reportProgress = (progress: TAllowanceProgress) => {
+            try {
+                onProgress?.(progress);
+            } catch (err) {
+                if (this.#debugMode) this.#errorFunction?.("Allowance progress callback failed", err);
+            }
+        };
+
+        const account = this.data.accountAddress;
+
+        if (!this.state.connected || !account) throw this.handleError(new DisconnectedError());
+
+        reportProgress({ step: "checking" });
+
+        let web3: Web3, chainId: number, decimals: number, rawAllowance: string;
+
+        try {
+            const tokenWeb3 = this.getTokenWeb3();
+
+            web3 = tokenWeb3.web3;
+            chainId = tokenWeb3.chainId;
+
+            [ decimals, rawAllowance ] = await Promise.all([
+                this.getTokenDecimals(web3, tokenWeb3.chainId, token),
+                new web3.eth.Contract(ERC20Abi, token.address).methods.allowance(account, spender).call()
+            ]);
+        } catch (err) {
+            throw this.handleError(err);
+        }
+
+        const tokenContract = new web3.eth.Contract(ERC20Abi, token.address);
+
+        const requiredAllowance = new BigNumber(amount).shiftedBy(decimals).integerValue(BigNumber.ROUND_CEIL);
+        const currentAllowance = new BigNumber(rawAllowance);
+
+        if (currentAllowance.gte(requiredAllowance)) {
+            reportProgress({ step: "completed", allowance: currentAllowance.shiftedBy(-decimals) });
+
+            return currentAllowance.shiftedBy(-decimals);
+        }
+
+        const approvalAmount = options.unlimited ? MaxUint256 : requiredAllowance.toFixed();
+
+        let resetFirst = options.resetFirst;
+
+        // Tokens with the zero-reset requirement revert approvals of a non-zero allowance,
+        // other estimation errors leave the approval to the wallet
+        if (resetFirst === undefined && !currentAllowance.isZero()) {
+            resetFirst = ZeroResetTokens[chainId]?.includes(getTokenKey(token.address))
+                || await tokenContract.methods.approve(spender, approvalAmount).estimateGas({ from: account })
+                    .then(() => false, isExecutionRevertedError);
+        }
+
+        if (resetFirst && !currentAllowance.isZero()) {
+            reportProgress({ step: "resetting" });
+
+            const resetTransaction = await this.sendApproval(token, spender, "0", options.confirmations);
+
+            reportProgress({ step: "resetting", transaction: resetTransaction });
+
+            await this.waitForApproval(resetTransaction);
+        }
+
+        reportProgress({ step: "approving" });
+
+        const approveTransaction = await this.sendApproval(token, spender, approvalAmount, options.confirmations);
+
+        reportProgress({ step: "approving", transaction: approveTransaction });
+
+        await this.waitForApproval(approveTransaction);
+
+        const allowance = new BigNumber(approvalAmount).shiftedBy(-decimals);
+
+        reportProgress({ step: "completed", transaction: approveTransaction, allowance });
+
+        return allowance;
+    }
+
+    /**
+     * Method for revoking the token allowance of a spender (approval of zero amount).
+     *
+     * @param {TTokenInfo} token token info.
+     * @param {string} spender spender address.
+     * @param {number} confirmations number of confirmations required for the confirmed status.
+     * @return {Promise<TTrackedTransaction>} submitted revoke transaction.
+     * @throws {EvmWalletError} wallet not connected or transaction rejected.
+     */
+    public async revokeAllowance (
+        token: TTokenInfo,
+        spender: string,
+        confirmations = 1
+    ): Promise<TTrackedTransaction> {
+        return this.sendApproval(token, spender, "0", confirmations);
+    }
+
+    /**
+     * Method for suggesting the wallet to track the token (wallet_watchAsset).
+     *
+     * @param {TTokenInfo} token token info.
+     * @param {string} image token image URL.
+     * @return {Promise<boolean>} true if token added by the user.
+     * @throws {EvmWalletError} wallet not connected or request failed.
+     */
+    public async watchAsset (token: TTokenInfo, image?: string): Promise<boolean> {
+        if (!this.state.connected || !this.data.ethereum) throw this.handleError(new DisconnectedError());
+
+        try {
+            const { web3, chainId } = this.getTokenWeb3();
+
+            const decimals = await this.getTokenDecimals(web3, chainId, token);
+
+            const added = await this.data.ethereum.request<boolean>({
+                method: "wallet_watchAsset",
+                params: { type: "ERC20", options: { address: token.address, symbol: token.symbol, decimals, image } }
+            });
+
+            return Boolean(added);
+        } catch (err) {
+            throw this.handleError(err);
+        }
+    }
+
+    /**
+     * Method for registering a contract with per-chain addresses, contract
+     * with the same name will be replaced.
+     *
+     * ABI declared "as const" gives typed method names, arguments and results.
+     *
+     * @example
+     * const token = evmWallet.registerContract("token", TokenAbi, { 1: "0x...", 56: "0x..." });
+     * const balance = await token.read("balanceOf", [ evmWallet.data.accountAddress ]);
+     * await token.write("transfer", [ recipient, amount ], { chainId: 56 });
+     *
+     * @param {string} name contract name.
+     * @param {Abi} abi contract ABI.
+     * @param {TContractAddresses} addresses contract addresses by chain ID.
+     * @return {ContractHandle<Abi>} contract handle.
+     */
+    public registerContract<Abi extends TAbi> (
+        name: string,
+        abi: Abi,
+        addresses: TContractAddresses
+    ): ContractHandle<Abi> {
+        const contract = new ContractHandle(name, abi, addresses, this.getContractContext());
+
+        this.#contracts.set(name, contract);
+
+        return contract;
+    }
+
+    /**
+     * Method for getting a registered contract handle.
+     *
+     * @param {string} name contract name.
+     * @return {ContractHandle<Abi> | undefined} contract handle.
+     */
+    public getContract<Abi extends TAbi = TAbi> (name: string): ContractHandle<Abi> | undefined {
+        return this.#contracts.get(name);
+    }
+
+    /**
+     * Method for removing a registered contract.
+     * @param {string} name contract name.
+     */
+    public unregisterContract (name: string) {
+        this.#contracts.delete(name);
+    }
+
+    /**
+     * Method for signing a message with the connected account (personal_sign).
+     *
+     * @param {string} message message to sign.
+     * @return {Promise<string>} message signature.
+     */
+    public async signMessage (message: string): Promise<string> {
+        const { ethereum, accountAddress } = this.getSigner();
+
+        const signature = await ethereum.request<string>({
+            method: "personal_sign",
+            params: [ Web3.utils.utf8ToHex(message), accountAddress ]
+        }).catch(err => {
+            throw this.handleError(err);
+        });
+
+        if (!signature) throw this.handleError(new EvmWalletError("Message signature not received", -32603));
+
+        return signature;
+    }
+
+    /**
+     * Method for signing EIP-712 typed data with the connected account (eth_signTypedData_v4).
+     *
+     * Declare types "as const" to get the message type checked against them.
+     *
+     * @param {TTypedData} typedData EIP-712 typed data.
+     * @return {Promise<string>} typed data signature.
+     */
+    public async signTypedData<Types extends TTypedDataTypes, PrimaryType extends keyof Types & string> (
+        typedData: TTypedData<Types, PrimaryType>
+    ): Promise<string> {
+        const { ethereum, accountAddress } = this.getSigner();
+
+        if (typedData.domain.chainId !== undefined && Number(typedData.domain.chainId) !== this.state.accountChain)
+            throw this.handleError(new ChainDisconnectedError("Typed data domain chain differs from the wallet chain"));
+
+        const signature = await ethereum.request<string>({
+            method: "eth_signTypedData_v4",
+            params: [ accountAddress, serializeTypedData(typedData) ]
+        }).catch(err => {
+            throw this.handleError(err);
+        });
+
+        if (!signature) throw this.handleError(new EvmWalletError("Typed data signature not received", -32603));
+
+        return signature;
+    }
+
+    /**
+     * Method for signing in with the connected account (EIP-4361).
+     *
+     * Message is built from the connected account and chain, domain and URI default
+     * to the current page location. Signature is verified before returning, smart contract
+     * account signatures are verified with EIP-1271.
+     *
+     * @param {Partial<TSiweMessageParams>} params message parameters, nonce should be received from the backend.
+     * @return {Promise<{message: string, signature: string}>} signed message.
+     */
+    public async signInWithEthereum (params: Partial<TSiweMessageParams> = {}) {
+        const { accountAddress } = this.getSigner();
+
+        const message = buildSiweMessage({
+            domain: params.domain ?? window.location.host,
+            uri: params.uri ?? window.location.origin,
+            nonce: params.nonce ?? generateSiweNonce(),
+            issuedAt: params.issuedAt ?? new Date().toISOString(),
+            ...params,
+            address: accountAddress,
+            chainId: this.state.accountChain as number
+        });
+
+        const signature = await this.signMessage(message);
+
+        const verification = await this.verifySignInWithEthereum(message, signature);
+
+        if (!verification.valid) throw this.handleError(new EvmWalletError(
+            "Sign-In with Ethereum verification failed: " + verification.error,
+            -32603
+        ));
+
+        return { message, signature };
+    }
+
+    /**
+     * Method for verifying Sign-In with Ethereum message signature, signatures not matching
+     * the message address are checked with EIP-1271 if the message chain is in the networks list.
+     *
+     * @param {string} message signed message.
+     * @param {string} signature message signature.
+     * @return {Promise<TSiweVerificationResult>} verification result.
+     */
+    public async verifySignInWithEthereum (message: string, signature: string): Promise<TSiweVerificationResult> {
+        const chainId = parseSiweMessage(message)?.chainId;
+        const web3 = chainId ? this.getChainWeb3(chainId) : undefined;
+
+        if (!web3) return verifySiweMessage(message, signature);
+
+        return verifySiweMessageWithContract(web3, message, signature);
+    }
+
+    /**
+     * Method to disconnect the current wallet.
+     * @protected
+     */
+    @action
+    protected disconnectWallet () {
+        const connector = this.getConnectedConnector();
+
+        if (this.state.status !== "idle") this.transition("disconnecting");
+
+        // Pending connection attempt is dropped
+        this.#connectAbortController?.abort();
+        this.#connectAbortController = undefined;
+
+        this.clearWalletSubscription();
+
+        // Session and connector are already disconnected by another tab
+        if (!this.#applyingRemoteSession) {
+            this.clearSession();
+
+            connector?.disconnect().catch(err => {
+                if (this.#debugMode) this.#errorFunction?.("Wallet", connector.id, "disconnect failed", err);
+            });
+        }
+
+        const status = this.state.status;
+
+        // Pending transactions are tracked after disconnection through the read-only rpc
+        this.resetData();
+        this.resetState("loading", "pendingTransactions");
+        this.setState("status", status);
+        this.updateTransactionsTracking();
+
+        this.#portfolioAccount = undefined;
+        this.portfolio.clear();
+
+        this.#walletChainId = undefined;
+        this.#chainSwitchAttempts = 0;
+
+        this.transition("idle");
+        this.callEvent("walletDisconnected");
+
+        if (this.#debugMode) this.#debugFunction?.("EVM wallet disconnected");
+    }
+
+    /**
+     * Method for creating subscriptions to various wallet events.
+     *
+     * @return {Promise<void>}
+     * @protected
+     */
+    @action
+    protected async createWalletSubscription () {
+        if (!this.data.ethereum) {
+            if (this.#debugMode) this.#errorFunction?.(
+                "Ethereum provider not found, subscriptions not created\n",
+                "Try to call subscribe methods after setting provider"
+            );
+
+            this.disconnectWallet();
+            return;
+        }
+
+        this.clearWalletSubscription();
+
+        this.data.ethereum.on("accountsChanged", this.walletAccountsSubscription as any);
+
+        this.data.ethereum.on("chainChanged", this.walletChainSubscription as any);
+
+        this.data.ethereum.on("disconnect", this.walletDisconnectSubscription);
+    }
+
+    /**
+     * Method for subscribing to new blocks of the wallet chain to update the wallet balance,
+     * recreated on chain change to use the chain polling interval.
+     * @protected
+     */
+    @action
+    protected createBlockSubscription () {
+        this.#blockUnsubscribe?.();
+        this.#blockUnsubscribe = undefined;
+
+        // Watched address blocks are polled through the read provider
+        const provider = this.data.ethereum ?? (this.state.watchMode && this.state.accountChain
+            ? this.getReadProvider(this.state.accountChain)
+            : undefined);
+
+        if (!provider) return;
+
+        const chainPollingInterval = this.state.accountChain
+            ? this.networksList[this.state.accountChain]?.pollingInterval
+            : undefined;
+
+        this.#blockUnsubscribe = createBlockSubscription({
+            provider,
+            pollingInterval: chainPollingInterval ?? this.#pollingInterval,
+            onBlock: this.walletBlockSubscription,
+            onError: err => {
+                if (this.#debugMode) this.#errorFunction?.("Block subscription error", err);
+            }
+        });
+    }
+
+    /**
+     * Method for releasing the previously connected wallet before connecting a new provider,
+     * events of the previous provider stop reaching the controller.
+     *
+     * @param {string} walletKey key of the wallet being connected (connector ID).
+     * @private
+     */
+    private releaseConnectedWallet (walletKey: string) {
+        const connector = this.getConnectedConnector();
+
+        this.clearWalletSubscription();
+
+        // Reconnecting connector can return the same provider, it is not disconnected
+        if (!connector || connector.id === walletKey) return;
+
+        connector.disconnect().catch(err => {
+            if (this.#debugMode) this.#errorFunction?.("Wallet", connector.id, "disconnect failed", err);
+        });
+    }
+
+    /**
+     * Method for canceling all created subscriptions.
+     * @protected
+     */
+    @action
+    protected clearWalletSubscription () {
+        if (this.data.ethereum) {
+            this.data.ethereum.off?.("accountsChanged", this.walletAccountsSubscription);
+
+            this.data.ethereum.off?.("chainChanged", this.walletChainSubscription);
+
+            this.data.ethereum.off?.("disconnect", this.walletDisconnectSubscription);
+        }
+
+        this.#blockUnsubscribe?.();
+        this.#blockUnsubscribe = undefined;
+
+        if (this.#debugMode) this.#debugFunction?.("EVM wallet subscriptions cleared");
+    }
+
+    /**
+     * Method for getting balance of the connected account in a selected chain.
+     *
+     * Failed wallet requests are retried through the network rpc, zero balance
+     * is returned if it is not available, unless throwOnError is set.
+     *
+     * @param {string | undefined} account account address.
+     * @param {number | undefined} chain chain identifier.
+     * @param {boolean} throwOnError rethrow the balance request error instead of returning zero balance.
+     * @return {Promise<BigNumber>} formatted account balance.
+     * @protected
+     */
+    @action
+    protected async getAccountBalance (account: string | undefined, chain: number | undefined, throwOnError = false) {
+        if (chain === undefined || !account) return new BigNumber(0);
+
+        // Balance of the watched address is read without a wallet
+        const web3 = this.data.web3 ?? (this.state.watchMode ? this.getReadWeb3(chain) : undefined);
+
+        if (!web3) return new BigNumber(0);
+
+        let rawBalance: string | undefined;
+        let balanceError: unknown;
+
+        const getRacePromise = (timeout: number) => {
+            const targetChain = this.state.accountChain;
+
+            return new Promise<string>(resolve => {
+                setTimeout(() => {
+                    const nextBalance = this.state.accountChain === targetChain
+                        ? Web3.utils.toWei(this.state.balance?.toFixed() ?? "0")
+                        : "0";
+
+                    resolve(nextBalance);
+                }, timeout);
+            });
+        };
+
+        try {
+            rawBalance = await Promise.race([
+                web3.eth.getBalance(account),
+                getRacePromise(3000)
+            ]);
+        } catch (err) {
+            balanceError = err;
+        }
+
+        // Zero or failed wallet balance is checked through the network rpc
+        const readWeb3 = this.data.web3 && (rawBalance === undefined || rawBalance === "0")
+            ? this.getReadWeb3(chain)
+            : undefined;
+
+        if (readWeb3) {
+            rawBalance = await Promise.race([
+                readWeb3.eth.getBalance(account),
+                getRacePromise(5000)
+            ]);
+        }
+
+        if (rawBalance === undefined) {
+            if (throwOnError) throw balanceError;
+
+            rawBalance = "0";
+        }
+
+        if (this.#debugMode) {
+            this.#debugFunction?.("Wallet balance request succeed, new balance is", rawBalance);
+        }
+
+        return new BigNumber(Web3.utils.fromWei(rawBalance));
+    }
+
+    /**
+     * Method for getting balances of several accounts in a selected chain.
+     *
+     * Accounts whose balance request failed are not included in the result.
+     *
+     * @param {string[] | undefined} accounts accounts addresses.
+     * @param {number | undefined} chain chain identifier.
+     * @return {Promise<{[p: string]: BigNumber}>} formatted balances by lowercase account address.
+     * @protected
+     */
+    @action
+    protected async getAccountsBalances (accounts: string[] | undefined, chain: number | undefined) {
+        const accountBalances: { [key: string]: BigNumber } = {};
+
+        if (chain === undefined || !accounts || accounts.length === 0) return accountBalances;
+
+        const web3 = this.getReadWeb3(chain) ?? this.data.web3;
+
+        if (!web3) return accountBalances;
+
+        await Promise.all(accounts.map(async account => {
+            try {
+                const rawBalance = await web3.eth.getBalance(account);
+
+                accountBalances[account.toLowerCase()] = new BigNumber(Web3.utils.fromWei(rawBalance));
+            } catch (err) {
+                if (this.#debugMode) this.#errorFunction?.("Account", account, "balance request failed", err);
+            }
+        }));
+
+        return accountBalances;
+    }
+
+    /**
+     * Method for getting balances of the watched tokens in a selected chain.
+     *
+     * Tokens whose balance request failed are not included in the result.
+     *
+     * @param {string | undefined} account account address.
+     * @param {number | undefined} chain chain identifier.
+     * @return {Promise<{[p: string]: BigNumber}>} formatted balances by token key.
+     * @protected
+     */
+    @action
+    protected async getTokenBalances (account: string | undefined, chain: number | undefined) {
+        const tokenBalances: { [key: string]: BigNumber } = {};
+
+        const tokens = chain !== undefined ? this.tokensList[chain] ?? [] : [];
+
+        if (chain === undefined || !account || tokens.length === 0) return tokenBalances;
+
+        const web3 = this.getReadWeb3(chain) ?? this.data.web3;
+
+        if (!web3) return tokenBalances;
+
+        await Promise.all(tokens.map(async token => {
+            const tokenContract = new web3.eth.Contract(ERC20Abi, token.address);
+
+            try {
+                const decimals = await this.getTokenDecimals(web3, chain, token);
+
+                const rawBalance: string = await tokenContract.methods.balanceOf(account).call();
+
+                tokenBalances[getTokenKey(token.address)] = new BigNumber(rawBalance).shiftedBy(-decimals);
+            } catch (err) {
+                if (this.#debugMode) this.#errorFunction?.("Token", token.symbol, "balance request failed", err);
+            }
+        }));
+
+        return tokenBalances;
+    }
+
+    /**
+     * Method for updating token balances state and calling related events.
+     *
+     * @param {{[p: string]: BigNumber}} tokenBalances new token balances.
+     * @param {boolean} merge keep previous balances of the tokens missing in the new balances.
+     * @protected
+     */
+    @action
+    protected updateTokenBalances (tokenBalances: { [key: string]: BigNumber }, merge?: boolean) {
+        this.setState("tokenBalances", merge ? { ...this.state.tokenBalances, ...tokenBalances } : tokenBalances);
+
+        this.chainTokens.forEach(token => {
+            const balance = this.state.tokenBalances?.[getTokenKey(token.address)];
+
+            if (balance) this.callEvent("tokenBalanceUpdated", token, balance);
+        });
+    }
+
+    /**
+     * Method for getting a shared web3 instance for read-only requests in a selected chain.
+     *
+     * @param {number} chain chain identifier.
+     * @return {Web3 | undefined} web3 instance with the network read provider.
+     * @protected
+     */
+    protected getReadWeb3 (chain: number) {
+        return this.getReadWeb3Entry(chain)?.web3;
+    }
+
+    /**
+     * Method for getting web3 of a selected chain: wallet web3 if the wallet is
+     * connected to the chain, otherwise the shared read-only web3.
+     *
+     * @param {number} chain chain identifier.
+     * @return {Web3 | undefined} web3 instance.
+     * @protected
+     */
+    protected getChainWeb3 (chain: number) {
+        if (this.state.connected && this.state.accountChain === chain && this.data.web3) return this.data.web3;
+
+        return this.getReadWeb3(chain);
+    }
+
+    /**
+     * Method for updating a tracked transaction, persisting pending transactions
+     * and calling related events.
+     *
+     * @param {TTrackedTransaction} transaction updated transaction.
+     * @protected
+     */
+    @action
+    protected updateTransaction (transaction: TTrackedTransaction) {
+        const pendingTransactions = (this.state.pendingTransactions ?? [])
+            .filter(pending => pending.hash !== transaction.hash);
+
+        if (!isTransactionFinal(transaction)) pendingTransactions.push(transaction);
+
+        this.setState("pendingTransactions", pendingTransactions);
+        this.#storageController.setItem(this.#storageKey(PendingTransactionsStorageKey), pendingTransactions);
+
+        this.updateTransactionsTracking();
+        this.callEvent("transactionUpdated", transaction);
+    }
+
+    /**
+     * Method for starting the transactions tracking if there are pending transactions
+     * and stopping it otherwise.
+     * @private
+     */
+    private updateTransactionsTracking () {
+        const hasPendingTransactions = (this.state.pendingTransactions ?? []).length > 0;
+
+        if (hasPendingTransactions && !this.#transactionsTrackingInterval)
+            this.#transactionsTrackingInterval = setInterval(this.trackTransactions, this.#pollingInterval);
+
+        if (!hasPendingTransactions && this.#transactionsTrackingInterval) {
+            clearInterval(this.#transactionsTrackingInterval);
+            this.#transactionsTrackingInterval = undefined;
+        }
+    }
+
+    /**
+     * Method for updating statuses of the pending transactions.
+     * @return {Promise<void>}
+     * @protected
+     */
+    protected async trackTransactions () {
+        const pendingTransactions = this.state.pendingTransactions ?? [];
+
+        await Promise.all(pendingTransactions.map(async (transaction: TTrackedTransaction) => {
+            const web3 = this.getReadWeb3(transaction.chainId)
+                ?? (transaction.chainId === this.state.accountChain ? this.data.web3 : undefined);
+
+            if (!web3) return;
+
+            try {
+                const nextTransaction = await getTransactionUpdate(web3, transaction);
+
+                if (nextTransaction.status === transaction.status
+                    && nextTransaction.confirmations === transaction.confirmations) return;
+
+                if (this.#debugMode)
+                    this.#debugFunction?.("Transaction", transaction.hash, "status changed to", nextTransaction.status);
+
+                this.updateTransaction(nextTransaction);
+            } catch (err) {
+                if (this.#debugMode)
+                    this.#errorFunction?.("Transaction", transaction.hash, "status request failed", err);
+            }
+        }));
+    }
+
+    /**
+     * Method for restoring pending transactions tracking from the local storage.
+     * @private
+     */
+    @action
+    private restorePendingTransactions () {
+        const storedTransactions = this.#storageController
+            .getItem<TTrackedTransaction[]>(this.#storageKey(PendingTransactionsStorageKey));
+
+        const pendingTransactions = Array.isArray(storedTransactions) ? storedTransactions : [];
+
+        if (this.#debugMode && pendingTransactions.length > 0)
+            this.#debugFunction?.("Restoring", pendingTransactions.length, "pending transactions");
+
+        pendingTransactions.forEach(transaction => this.updateTransaction(transaction));
+    }
+
+    /**
+     * Method for restoring user-defined networks from the storage, invalid networks are skipped.
+     * @private
+     */
+    @action
+    private restoreCustomNetworks () {
+        const storedNetworks = this.#storageController
+            .getItem<{ [key: number]: TNetworkInfo }>(this.#storageKey(CustomNetworksStorageKey));
+
+        const customNetworks: { [key: number]: TNetworkInfo } = {};
+
+        const networks = storedNetworks && typeof storedNetworks === "object" && !Array.isArray(storedNetworks)
+            ? storedNetworks
+            : {};
+
+        Object.entries<TNetworkInfo>(networks).forEach(([ chainId, networkInfo ]) => {
+            try {
+                customNetworks[Number(chainId)] = validateNetworkInfo(Number(chainId), networkInfo, this.#rpcVariables);
+            } catch (err) {
+                if (this.#debugMode) this.#errorFunction?.("Stored custom network skipped", err);
+            }
+        });
+
+        if (Object.keys(customNetworks).length === 0 && Object.keys(this.#customNetworks).length === 0) return;
+
+        this.#customNetworks = customNetworks;
+
+        this.setNetworksList(this.#baseNetworksList);
+    }
+
+    /**
+     * Method for re-evaluating the wallet chain after the networks list change, chain
+     * becomes valid if added to the list and invalid if removed from it.
+     *
+     * @return {Promise<void>}
+     * @private
+     */
+    private async revalidateWalletChain () {
+        if (!this.state.connected || !this.data.ethereum) return;
+
+        const { accountChain, accountChainValid } = this.state;
+
+        if (accountChainValid && accountChain !== undefined && this.networksList[accountChain]) return;
+
+        try {
+            const walletChain = await this.data.ethereum.request<string>({ method: "eth_chainId" });
+
+            if (walletChain) await this.walletChainSubscription(walletChain);
+        } catch (err) {
+            if (this.#debugMode) this.#errorFunction?.("Wallet chain re-evaluation failed", err);
+        }
+    }
+
+    /**
+     * Method for checking the wallet chain against the chain policy, wallet is asked
+     * to switch to the policy default chain if automatic switch is enabled.
+     *
+     * @param {number} chainId wallet chain ID.
+     * @private
+     */
+    @action
+    private applyChainPolicy (chainId: number) {
+        if (!this.state.connected) return;
+
+        this.#walletChainId = chainId;
+
+        const chainAllowed = isChainAllowed(this.#chainPolicy, chainId, this.networksList);
+
+        this.setState("chainAllowed", chainAllowed);
+
+        if (chainAllowed) {
+            this.#chainSwitchAttempts = 0;
+            return;
+        }
+
+        const requiredChainId = getPolicyChainId(this.#chainPolicy, this.networksList);
+
+        this.callEvent("wrongNetwork", chainId, requiredChainId);
+
+        if (!this.#chainPolicy.autoSwitch || requiredChainId === undefined) return;
+
+        // Chain change events during the switch request are not retried
+        if (this.state.status === "switchingChain") return;
+
+        if (this.#chainSwitchAttempts >= (this.#chainPolicy.maxSwitchAttempts ?? 1)) {
+            if (this.#debugMode) this.#errorFunction?.("Chain switch attempts exceeded, wallet stays at", chainId);
+            return;
+        }
+
+        this.#chainSwitchAttempts += 1;
+
+        this.requireNetworkChangeOrThrow(requiredChainId).catch(err => {
+            if (this.#debugMode) this.#errorFunction?.("Automatic chain switch to", requiredChainId, "failed", err);
+        });
+    }
+
+    /**
+     * Method for changing the connection status and calling the transition event,
+     * invalid transitions are ignored.
+     *
+     * @param {TConnectionStatus} status next connection status.
+     * @return {boolean} true if status changed or already set.
+     * @private
+     */
+    @action
+    private transition (status: TConnectionStatus): boolean {
+        const previousStatus = this.state.status;
+
+        if (previousStatus === status) return true;
+
+        if (!canTransitionTo(previousStatus, status)) {
+            if (this.#debugMode) this.#errorFunction?.("Invalid connection status transition", previousStatus, status);
+
+            return false;
+        }
+
+        this.setState("status", status);
+        this.callEvent("transition", status, previousStatus);
+
+        return true;
+    }
+
+    /**
+     * Method for starting a connection attempt, concurrent attempts are rejected.
+     *
+     * @param {"detecting" | "connecting"} status initial status of the attempt.
+     * @return {AbortSignal} abort signal of the attempt, aborted by cancelConnect.
+     * @throws {RequestPendingError} another connection attempt is pending.
+     * @private
+     */
+    private beginConnect (status: "detecting" | "connecting" = "connecting"): AbortSignal {
+        const currentStatus = this.state.status;
+
+        if (PendingConnectionStatuses.includes(currentStatus) || !canTransitionTo(currentStatus, status))
+            throw this.handleError(new RequestPendingError("Wallet connection already in progress"));
+
+        const abortController = new AbortController();
+
+        this.#connectAbortController = abortController;
+        this.transition(status);
+
+        return abortController.signal;
+    }
+
+    /**
+     * Method for rejecting a connection request when the connection attempt is cancelled.
+     *
+     * @param {AbortSignal} signal connection attempt abort signal.
+     * @param {Promise<T> | T} promise connection request.
+     * @return {Promise<T>} request result.
+     * @throws {UserRejectedRequestError} connection attempt cancelled.
+     * @private
+     */
+    private raceConnectAbort<T> (signal: AbortSignal, promise: Promise<T> | T): Promise<T> {
+        const cancelledError = () => new UserRejectedRequestError("Wallet connection cancelled");
+
+        if (signal.aborted) return Promise.reject(cancelledError());
+
+        return Promise.race([
+            promise,
+            new Promise<never>((_, reject) => {
+                signal.addEventListener("abort", () => reject(cancelledError()), { once: true });
+            })
+        ]);
+    }
+
+    /**
+     * Method for reading the persisted wallet session, wallet key cached by previous
+     * versions is migrated and expired session is removed.
+     *
+     * @return {TWalletSession | undefined} wallet session.
+     * @private
+     */
+    private readSession (): TWalletSession | undefined {
+        const sessionKey = this.#storageKey(WalletSessionStorageKey);
+        const legacyKey = this.#storageKey(CachedEthereumProviderStorageKey);
+
+        let session = parseWalletSession(this.#storageController.getItem(sessionKey));
+
+        const legacyWalletKey = this.#storageController.getItem<string>(legacyKey);
+
+        if (legacyWalletKey) {
+            this.#storageController.removeItem(legacyKey);
+
+            if (!session) {
+                session = { version: WalletSessionVersion, connectorId: legacyWalletKey, connectedAt: Date.now() };
+
+                this.#storageController.setItem(sessionKey, session);
+            }
+        }
+
+        if (session && isWalletSessionExpired(session)) {
+            if (this.#debugMode) this.#debugFunction?.("Wallet session expired, clearing cache...");
+
+            this.#storageController.removeItem(sessionKey);
+
+            return undefined;
+        }
+
+        return session;
+    }
+
+    /**
+     * Method for persisting the wallet session of the connected wallet and
+     * notifying other tabs.
+     * @private
+     */
+    private saveSession () {
+        const connectorId = this.data.connectedWalletKey;
+
+        if (!this.state.connected || !connectorId) return;
+
+        const previousSession = this.session;
+
+        const session: TWalletSession = {
+            version: WalletSessionVersion,
+            connectorId,
+            account: this.data.accountAddress,
+            chainId: this.state.accountChain,
+            connectedAt: previousSession && previousSession.connectorId === connectorId
+                ? previousSession.connectedAt
+                : Date.now(),
+            expiresAt: this.#sessionTtl !== undefined ? Date.now() + this.#sessionTtl : undefined
+        };
+
+        this.#storageController.setItem(this.#storageKey(WalletSessionStorageKey), session);
+
+        if (!this.#applyingRemoteSession) this.#sessionSync?.notify();
+    }
+
+    /**
+     * Method for removing the wallet session and notifying other tabs.
+     * @private
+     */
+    private clearSession () {
+        this.#storageController.removeItem(this.#storageKey(WalletSessionStorageKey));
+
+        if (!this.#applyingRemoteSession) this.#sessionSync?.notify();
+    }
+
+    /**
+     * Method for applying the wallet session changed in another tab: wallet is
+     * disconnected, connected or its active account is changed.
+     *
+     * @return {Promise<void>}
+     * @private
+     */
+    @action
+    private async handleSessionChange () {
+        // Session is read by initController itself
+        if (this.state.loading || this.#applyingRemoteSession) return;
+
+        const session = this.readSession();
+
+        this.#applyingRemoteSession = true;
+
+        try {
+            if (!session) {
+                if (this.state.connected) this.disconnectWallet();
+
+                return;
+            }
+
+            if (!this.state.connected || this.data.connectedWalletKey !== session.connectorId) {
+                if (!this.walletConnectors.has(session.connectorId)) await this.discoverWallets();
+
+                const connector = this.walletConnectors.get(session.connectorId);
+
+                const ethereum = await connector?.restoreSession(this.getConnectorContext(session.connectorId))
+                    .catch(() => undefined);
+
+                if (this.#debugMode) this.#debugFunction?.("Wallet connected in another tab", session.connectorId);
+
+                if (ethereum) await this.connectWallet(ethereum, session.connectorId);
+
+                return;
+            }
+
+            const account = this.state.accounts?.find(authorizedAccount =>
+                authorizedAccount.toLowerCase() === session.account?.toLowerCase()
+            );
+
+            if (account && account !== this.data.accountAddress && this.state.accounts)
+                await this.changeAccount(account, this.state.accounts);
+        } finally {
+            this.#applyingRemoteSession = false;
+        }
+    }
+
+    /**
+     * Storage controller, created on first use, so the controller
+     * does not access localStorage until initialized.
+     * @private
+     */
+    get #storageController () {
+        if (!this.#storageControllerInstance)
+            this.#storageControllerInstance = new StorageController(this.#storage ?? localStorage);
+
+        return this.#storageControllerInstance;
+    }
+
+    /**
+     * Method for getting a prefixed storage key.
+     *
+     * @param {string} key storage key.
+     * @return {string} storage key with the controller prefix.
+     * @private
+     */
+    #storageKey (key: string) {
+        return this.#storageKeyPrefix + key;
+    }
+
+    /**
+     * Method for converting an error to a typed error, saving it as the last error
+     * and calling the error event.
+     *
+     * @param {any} error wallet or request error.
+     * @return {EvmWalletError} typed error.
+     * @private
+     */
+    @action
+    private handleError (error: any): EvmWalletError {
+        const walletError = toEvmWalletError(error);
+
+        if (this.#debugMode) this.#errorFunction?.(walletError);
+
+        this.setState("lastError", walletError);
+        this.callEvent("error", walletError);
+
+        return walletError;
+    }
+
+    /**
+     * Method for handling active account change: calls the event, refreshes
+     * the portfolio and the ENS profile of the account.
+     *
+     * @param {string} account new active account.
+     * @param {string} previousAccount previous active account.
+     * @private
      */
     @action
-    public callWalletAction (forceDisconnect?: true) {
-        // If the wallet is connected, then disable it ...
-        if (this.state.connected || forceDisconnect) {
-            this.disconnectWallet?.();
-            return;
-        }
+    private handleAccountChange (account: string, previousAccount?: string) {
+        if (this.state.connected) this.saveSession();
+
+        this.callEvent("accountChanged", account, previousAccount);
 
-        if (this.state.loading) return;
-        // ... or call a modal window to connect the wallet
-        if (this.#modalKey && !this.state.connected) modalWindowController.openModal(this.#modalKey);
+        if (this.#portfolioEnabled) this.refreshPortfolio();
+
+        this.updateEnsProfile();
     }
 
     /**
-     * Require a connected wallet to change a network.
+     * Method for updating the ENS profile of the active account, profile
+     * is removed if the name is not resolved.
      *
-     * @param chainId {number} desired network ID.
+     * @return {Promise<void>}
+     * @private
      */
     @action
-    public async requireNetworkChange (chainId: number): Promise<boolean> {
-        if (!this.data.ethereum) return false;
+    private async updateEnsProfile () {
+        const account = this.data.accountAddress;
+
+        this.setData("ensProfile", undefined);
+
+        if (!account || !this.getReadWeb3(EnsChainId)) return;
 
         try {
-            await this.data.ethereum?.request({
-                method: "wallet_switchEthereumChain",
-                params: [ { chainId: this.data.web3?.utils.toHex(chainId) } ]
-            }).catch(() => {
-                throw new Error("Network switch request failure");
-            });
-        } catch (err) {
-            if (this.#debugMode) this.#errorFunction?.(err);
+            const ensProfile = await this.lookupAddress(account);
 
-            return false;
+            if (ensProfile && account === this.data.accountAddress) this.setData("ensProfile", ensProfile);
+        } catch (err) {
+            if (this.#debugMode) this.#errorFunction?.("ENS profile of", account, "not resolved", err);
         }
-
-        return true;
     }
 
     /**
-     * Method for connecting the wallet to the application.
+     * Method for getting a web3 instance for the ENS resolution (chain 1 read provider).
      *
-     * @param {MetaMaskInpageProvider} ethereum wallet provider.
-     * @param {string} walletKey key of the connected wallet (name).
-     * @return {Promise<boolean>} connecting result.
+     * @return {Web3} Ethereum Mainnet web3 instance.
+     * @throws {ChainDisconnectedError} chain 1 not found in the networks list.
+     * @private
      */
-    @action
-    public async connectWallet (
-        ethereum: MetaMaskInpageProvider,
-        walletKey: string
-    ): Promise<boolean> {
-        if (!ethereum) {
-            if (this.#debugMode) this.#errorFunction?.("Ethereum provider not specified, wallet not connected");
+    private getEnsWeb3 () {
+        const web3 = this.getReadWeb3(EnsChainId);
 
-            this.#storageController.removeItem(CachedEthereumProviderStorageKey);
-            return false;
-        }
+        if (!web3) throw new ChainDisconnectedError("Chain " + EnsChainId + " rpc not found, ENS is not available");
 
-        this.setData({ ethereum, web3: new Web3(ethereum as any), connectedWalletKey: walletKey });
+        return web3;
+    }
 
-        try {
-            await this.createWalletSubscription();
+    /**
+     * Method for getting a cached ENS resolution result or requesting and caching it, errors are not cached.
+     *
+     * @param {string} key request key.
+     * @param {() => Promise<T>} request resolution request.
+     * @return {Promise<T>} resolution result.
+     * @private
+     */
+    private async getCachedEnsValue<T> (key: string, request: () => Promise<T>): Promise<T> {
+        const cached = this.#ensCache.get(key);
 
-            const accounts = await this.requestConnectOrGetAccounts().catch(() => {
-                throw new Error("Wallet initialization failed");
-            });
+        if (cached && cached.expiresAt > Date.now()) return cached.value as T;
 
-            if (!accounts || accounts.length === 0) {
-                // noinspection ExceptionCaughtLocallyJS
-                throw new Error("Accounts not found, wallet not connected");
-            }
+        try {
+            const value = await request();
 
-            this.#storageController.setItem(CachedEthereumProviderStorageKey, walletKey);
+            this.#ensCache.set(key, { value, expiresAt: Date.now() + (this.#ensOptions.cacheTtl ?? 300000) });
 
-            const accountChain = await this.data.web3?.eth.getChainId();
-            const correctAccountChain = accountChain ? Boolean(this.networksList[accountChain])
-                ? accountChain : -1 : -1;
+            return value;
+        } catch (err) {
+            throw toEvmWalletError(err);
+        }
+    }
 
-            const accountBalance = await this.getAccountBalance(accounts[0], accountChain);
+    /**
+     * Method for updating portfolio balance of the network.
+     *
+     * @param {number} chainId network ID.
+     * @param {Partial<TPortfolioBalance>} update updated balance fields.
+     * @private
+     */
+    @action
+    private setPortfolioBalance (chainId: number, update: Partial<TPortfolioBalance>) {
+        this.portfolio.set(chainId, { loading: false, ...this.portfolio.get(chainId), ...update });
+    }
 
-            if (this.#debugMode) this.#debugFunction?.("EVM wallet connected", accounts[0]);
-            this.setState({
-                accountChain: correctAccountChain,
-                accountChainValid: correctAccountChain >= 0,
-                connected: true,
-                balance: accountBalance
-            });
+    /**
+     * Method for getting or creating a shared read provider and web3 instance of the network.
+     *
+     * @param {number} chain chain identifier.
+     * @return {{provider: ReadProvider, web3: Web3} | undefined} read provider and web3 instance.
+     * @private
+     */
+    private getReadWeb3Entry (chain: number) {
+        const existingEntry = this.#readWeb3.get(chain);
 
-            this.callEvent("networkChanged", this.state.accountChain);
-            this.callEvent("balanceUpdated", this.state.balance);
-            this.callEvent("walletConnected", accounts[0], walletKey);
+        if (existingEntry) return existingEntry;
 
-            this.setData({ accountAddress: accounts[0] });
+        const networkInfo = this.networksList[chain];
 
-            this.callEvent("accountChanged", accounts[0]);
+        if (!networkInfo || getRpcUrls(networkInfo).length === 0) return undefined;
 
-            return true;
-        } catch (err) {
-            if (this.#debugMode) this.#errorFunction?.(err);
+        const provider = new ReadProvider(chain, getRpcUrls(networkInfo));
+        const entry = { provider, web3: new Web3(provider) };
 
-            this.disconnectWallet();
+        this.#readWeb3.set(chain, entry);
 
-            return false;
-        }
+        return entry;
     }
 
     /**
-     * Method to disconnect the current wallet.
-     * @protected
+     * Method for getting the context passed to a wallet connector.
+     *
+     * @param {string} connectorId connector ID.
+     * @return {TWalletConnectorContext} connector context.
+     * @private
      */
-    @action
-    protected disconnectWallet () {
-        if (this.data.connectedWalletKey?.toLowerCase() === "walletconnect") {
-            this.#storageController.removeItem(WalletConnectDataStorageKey);
-        }
+    private getConnectorContext (connectorId: string): TWalletConnectorContext {
+        return {
+            networksList: this.networksList,
+            onDisconnect: () => {
+                if (this.data.connectedWalletKey === connectorId) this.disconnectWallet();
+            },
+            onDisplayUri: uri => this.callEvent("pairingUri", uri, connectorId),
+            removeStorageItem: key => this.#storageController.removeItem(this.#storageKey(key))
+        };
+    }
 
-        this.#storageController.removeItem(CachedEthereumProviderStorageKey);
+    /**
+     * Method for getting token decimals, decimals missing in the token info are read
+     * from the contract and cached.
+     *
+     * @param {Web3} web3 web3 instance connected to the token chain.
+     * @param {number} chain token chain ID.
+     * @param {TTokenInfo} token token info.
+     * @return {Promise<number>} token decimals.
+     * @private
+     */
+    private async getTokenDecimals (web3: Web3, chain: number, token: TTokenInfo): Promise<number> {
+        if (token.decimals !== undefined) return token.decimals;
 
-        this.clearWalletSubscription();
+        const decimalsKey = chain + ":" + getTokenKey(token.address);
 
-        this.resetData();
-        this.resetState("loading");
+        let decimals = this.#tokenDecimals.get(decimalsKey);
 
-        this.callEvent("walletDisconnected");
+        if (decimals === undefined) {
+            decimals = Number(await new web3.eth.Contract(ERC20Abi, token.address).methods.decimals().call());
 
-        if (this.#debugMode) this.#debugFunction?.("EVM wallet disconnected");
+            this.#tokenDecimals.set(decimalsKey, decimals);
+        }
+
+        return decimals;
     }
 
     /**
-     * Method for creating subscriptions to various wallet events.
+     * Method for getting web3 of the current chain for token requests,
+     * errors are passed to handleError by the calling methods.
      *
-     * @return {Promise<void>}
-     * @protected
+     * @return {{web3: Web3, chainId: number}} web3 instance and current chain ID.
+     * @throws {ChainDisconnectedError} unsupported chain or network rpc not found.
+     * @private
      */
-    @action
-    protected async createWalletSubscription () {
-        if (!this.data.ethereum) {
-            if (this.#debugMode) this.#errorFunction?.(
-                "Ethereum provider not found, subscriptions not created\n",
-                "Try to call subscribe methods after setting provider"
-            );
+    private getTokenWeb3 () {
+        const chainId = this.state.accountChain;
 
-            this.disconnectWallet();
-            return;
-        }
+        if (!chainId || !this.state.accountChainValid) throw new ChainDisconnectedError();
 
-        this.clearWalletSubscription();
+        const web3 = this.getChainWeb3(chainId);
 
-        this.data.ethereum.on("accountsChanged", this.walletAccountsSubscription as any);
+        if (!web3) throw new ChainDisconnectedError("Network " + chainId + " rpc not found");
 
-        this.data.ethereum.on("chainChanged", this.walletChainSubscription as any);
+        return { web3, chainId };
+    }
+
+    /**
+     * Method for sending a token approval transaction.
+     *
+     * @param {TTokenInfo} token token info.
+     * @param {string} spender spender address.
+     * @param {string} rawAmount approval amount in the token base units.
+     * @param {number} confirmations number of confirmations required for the confirmed status.
+     * @return {Promise<TTrackedTransaction>} submitted approval transaction.
+     * @throws {EvmWalletError} wallet not connected or transaction rejected.
+     * @private
+     */
+    private async sendApproval (token: TTokenInfo, spender: string, rawAmount: string, confirmations?: number) {
+        const web3 = this.data.web3;
 
-        this.data.ethereum.on("disconnect", this.walletConnectDisconnectSubscription);
+        if (!web3) throw this.handleError(new DisconnectedError());
 
-        this.#balanceUpdateInterval = setInterval(this.walletBalanceSubscription, 3000);
+        const data = new web3.eth.Contract(ERC20Abi, token.address).methods
+            .approve(spender, rawAmount)
+            .encodeABI();
 
-        // if (this.data.web3) this.data.web3.eth.subscribe("newBlockHeaders", this.walletBalanceSubscription);
+        return this.sendTransaction({ to: token.address, data }, confirmations);
     }
 
     /**
-     * Method for canceling all created subscriptions.
-     * @protected
+     * Method for waiting for an approval transaction confirmation.
+     *
+     * @param {TTrackedTransaction} transaction approval transaction.
+     * @return {Promise<void>}
+     * @throws {TransactionRejectedError} transaction failed, replaced or dropped.
+     * @private
      */
-    @action
-    protected clearWalletSubscription () {
-        if (this.data.ethereum) {
-            this.data.ethereum.off?.("accountsChanged", this.walletAccountsSubscription);
-
-            this.data.ethereum.off?.("chainChanged", this.walletChainSubscription);
+    private async waitForApproval (transaction: TTrackedTransaction) {
+        const { status } = await this.waitForTransaction(transaction.hash);
 
-            this.data.ethereum.off?.("disconnect", this.walletConnectDisconnectSubscription);
-        }
+        if (status !== "confirmed")
+            throw this.handleError(new TransactionRejectedError("Approval transaction " + status));
+    }
 
-        if (this.#balanceUpdateInterval) clearInterval(this.#balanceUpdateInterval);
+    /**
+     * Method for getting the context passed to contract handles.
+     * @return {TContractHandleContext} contract handle context.
+     * @private
+     */
+    private getContractContext (): TContractHandleContext {
+        return {
+            getWalletChain: () => this.state.connected && this.state.accountChainValid
+                ? this.state.accountChain
+                : undefined,
 
-        if (this.data.web3) this.data.web3.eth.clearSubscriptions(this.walletBalanceSubscription);
+            getReadWeb3: chainId => this.getChainWeb3(chainId),
 
-        if (this.#debugMode) this.#debugFunction?.("EVM wallet subscriptions cleared");
+            getAccount: () => this.data.accountAddress,
+            ensureChain: chainId => this.ensureWalletChain(chainId),
+            sendTransaction: (request, confirmations) => this.sendTransaction(request, confirmations)
+        };
     }
 
     /**
-     * Method for getting balance of the connected account in a selected chain.
+     * Method for switching the wallet to the chain and waiting for the chain change.
      *
-     * @param {string | undefined} account account address.
-     * @param {number | undefined} chain chain identifier.
-     * @return {Promise<BigNumber>} formatted account balance.
-     * @protected
+     * @param {number} chainId desired chain ID.
+     * @return {Promise<void>}
+     * @throws {EvmWalletError} wallet not connected or chain not changed.
+     * @private
      */
-    @action
-    protected async getAccountBalance (account: string | undefined, chain: number | undefined) {
-        if (!this.data.web3 || chain === undefined || !account) return new BigNumber(0);
+    private async ensureWalletChain (chainId: number) {
+        if (!this.state.connected) throw this.handleError(new DisconnectedError());
 
-        let rawBalance = "0";
+        if (this.state.accountChain === chainId) return;
 
-        const getRacePromise = (timeout: number) => {
-            const targetChain = this.state.accountChain;
+        // Subscribe before the request, chain may change before the request resolves
+        const networkChanged = this.#events.waitFor("networkChanged", changed => changed === chainId, 60000);
 
-            return new Promise<string>(resolve => {
-                setTimeout(() => {
-                    const nextBalance = this.state.accountChain === targetChain
-                        ? Web3.utils.toWei(this.state.balance?.toFixed() ?? "0")
-                        : "0";
+        networkChanged.catch(() => undefined);
 
-                    resolve(nextBalance);
-                }, timeout);
-            });
-        };
+        await this.requireNetworkChangeOrThrow(chainId);
 
         try {
-            rawBalance = await Promise.race([
-                this.data.web3.eth.getBalance(account),
-                getRacePromise(3000)
-            ]);
-        } catch { }
+            await networkChanged;
+        } catch {
+            throw this.handleError(new ChainDisconnectedError("Wallet not switched to chain " + chainId));
+        }
+    }
+
+    /**
+     * Method for getting the connector of the connected wallet.
+     * @return {IWalletConnector | undefined} wallet connector.
+     * @private
+     */
+    private getConnectedConnector () {
+        const connectedWalletKey = this.data.connectedWalletKey;
 
-        if (rawBalance === "0") {
-            const rpcUrl = getNetworksValue("rpc", this.networksList)[chain];
+        return connectedWalletKey ? this.walletConnectors.get(connectedWalletKey) : undefined;
+    }
 
-            if (!rpcUrl) return new BigNumber(Web3.utils.fromWei(rawBalance));
+    /**
+     * Method for getting the wallet provider and account for signing requests.
+     *
+     * @return {{ethereum: MetaMaskInpageProvider, accountAddress: string}} signer provider and account.
+     * @private
+     */
+    private getSigner () {
+        const { ethereum, accountAddress } = this.data;
 
-            const httpWeb3Provider = new Web3(new Web3.providers.HttpProvider(rpcUrl));
+        if (this.state.watchMode) throw this.handleError(
+            new DisconnectedError("Address is watched without a wallet, signing is not available")
+        );
 
-            rawBalance = await Promise.race([
-                httpWeb3Provider.eth.getBalance(account),
-                getRacePromise(5000)
-            ]);
-        }
+        if (!this.state.connected || !ethereum || !accountAddress)
+            throw this.handleError(new DisconnectedError("Wallet not connected, signing is not available"));
 
-        if (this.#debugMode) {
-            this.#debugFunction?.("Wallet balance request succeed, new balance is", rawBalance);
-        }
+        if (!this.state.accountChainValid) throw this.handleError(new ChainDisconnectedError());
 
-        return new BigNumber(Web3.utils.fromWei(rawBalance));
+        return { ethereum, accountAddress } as { ethereum: MetaMaskInpageProvider, accountAddress: string };
     }
 
     /**
      * Method to bypass endless metamask connection bugs.
+     * @param {AbortSignal} signal connection attempt abort signal, status is not changed after abort.
      * @return {Promise<string[]>} list of connected accounts.
      * @private
      */
-    private async requestConnectOrGetAccounts (): Promise<string[]> {
+    private async requestConnectOrGetAccounts (signal?: AbortSignal): Promise<string[]> {
         if (!this.data.web3 || !this.data.ethereum) return [];
 
         const wait = (time: number) => new Promise(r => setTimeout(r, time));
@@ -511,12 +2997,20 @@ class EvmWalletController extends BaseController<IEvmWalletState, Partial<IEvmWa
 
         if (isInitRequest) return [];
 
+        if (!signal?.aborted) this.transition("awaitingApproval");
+
         accounts = await Promise.race<any>([
             this.data.ethereum.request({ method: "eth_requestAccounts" }),
             isInitRequest ? wait(1000) : undefined
         ].filter(Boolean));
 
+        if (!signal?.aborted) this.transition("connecting");
+
         if (accounts && accounts.length > 0) return accounts;
+
+        // @ts-ignore
+        if (await this.data.ethereum._metamask?.isUnlocked?.() === false) throw new WalletLockedError();
+
         return [];
     }
 
@@ -529,9 +3023,7 @@ class EvmWalletController extends BaseController<IEvmWalletState, Partial<IEvmWa
      */
     @action
     private async walletAccountsSubscription (accounts: string[]) {
-        if (accounts[0] === this.data.accountAddress || !this.state.connected) return;
-
-        const changeForChain = this.state.accountChain;
+        if (!this.state.connected) return;
 
         const account = accounts[0];
 
@@ -542,17 +3034,47 @@ class EvmWalletController extends BaseController<IEvmWalletState, Partial<IEvmWa
             return;
         }
 
+        const activeAccount = this.data.accountAddress?.toLowerCase();
+        const activeAccountAuthorized = accounts.some(authorized => authorized.toLowerCase() === activeAccount);
+
+        // Account selected with selectAccount is kept until the wallet selects another account
+        if (account === this.state.accounts?.[0] && activeAccountAuthorized) {
+            this.setState("accounts", accounts);
+            return;
+        }
+
+        await this.changeAccount(account, accounts);
+    }
+
+    /**
+     * Method for changing the active account and updating its balances.
+     *
+     * @param {string} account new active account.
+     * @param {string[]} accounts authorized accounts list.
+     * @return {Promise<void>}
+     * @private
+     */
+    @action
+    private async changeAccount (account: string, accounts: string[]) {
+        const changeForChain = this.state.accountChain;
+        const previousAccount = this.data.accountAddress;
+
         if (this.#debugMode) this.#debugFunction?.("EVM wallet account changed to", account);
 
-        const accountBalance = await this.getAccountBalance(account, changeForChain);
+        const [ accountBalance, tokenBalances, accountBalances ] = await Promise.all([
+            this.getAccountBalance(account, changeForChain),
+            this.getTokenBalances(account, changeForChain),
+            this.getAccountsBalances(accounts, changeForChain)
+        ]);
 
         if (!this.state.connected || changeForChain !== this.state.accountChain) return;
 
-        this.setState("balance", accountBalance);
+        this.setState({ balance: accountBalance, accounts, accountBalances });
         this.setData("accountAddress", account);
 
-        this.callEvent("balanceUpdated", this.state.balance);
-        this.callEvent("accountChanged", account);
+        this.callEvent("balanceUpdated", accountBalance);
+        this.updateTokenBalances(tokenBalances);
+        this.handleAccountChange(account, previousAccount);
     }
 
     /**
@@ -578,12 +3100,18 @@ class EvmWalletController extends BaseController<IEvmWalletState, Partial<IEvmWa
         if (!this.networksList[correctChain]) {
             this.setState({
                 balance: new BigNumber(0),
+                tokenBalances: {},
+                accountBalances: {},
                 accountChain: -1,
                 accountChainValid: false
             });
 
-            this.callEvent("networkChanged", this.state.accountChain);
-            this.callEvent("balanceUpdated", this.state.balance);
+            this.saveSession();
+            this.createBlockSubscription();
+            this.applyChainPolicy(correctChain);
+
+            this.callEvent("networkChanged", -1);
+            this.callEvent("balanceUpdated", new BigNumber(0));
 
             if (this.#debugMode) this.#errorFunction?.("Unsupported chain selected:", correctChain);
             return;
@@ -591,40 +3119,82 @@ class EvmWalletController extends BaseController<IEvmWalletState, Partial<IEvmWa
 
         if (this.#debugMode) this.#debugFunction?.("EVM wallet chain changed to", correctChain);
 
-        const accountBalance = await this.getAccountBalance(this.data.accountAddress, correctChain);
+        const [ accountBalance, tokenBalances, accountBalances ] = await Promise.all([
+            this.getAccountBalance(this.data.accountAddress, correctChain),
+            this.getTokenBalances(this.data.accountAddress, correctChain),
+            this.getAccountsBalances(this.state.accounts, correctChain)
+        ]);
 
         if (!this.state.connected) return;
 
         this.setState({
             accountChain: correctChain,
             accountChainValid: correctChain >= 0,
-            balance: accountBalance
+            balance: accountBalance,
+            accountBalances
         });
 
-        this.callEvent("networkChanged", this.state.accountChain);
-        this.callEvent("balanceUpdated", this.state.balance);
+        this.saveSession();
+        this.createBlockSubscription();
+        this.applyChainPolicy(correctChain);
+
+        this.callEvent("networkChanged", correctChain);
+        this.callEvent("balanceUpdated", accountBalance);
+        this.updateTokenBalances(tokenBalances);
+    }
+
+    /**
+     * Method for handling new block event.
+     *
+     * @param {number} blockNumber new block number.
+     * @return {Promise<void>}
+     * @private
+     */
+    @action
+    private async walletBlockSubscription (blockNumber: number) {
+        if (!this.state.connected && !this.state.watchMode) return;
+
+        this.setState("blockNumber", blockNumber);
+
+        await this.walletBalanceSubscription();
     }
 
     /**
      * Method for handling account balance change event.
      *
-     * @param {Error | undefined} err block error.
+     * Balance request errors are rethrown to delay next updates.
+     *
      * @return {Promise<void>}
      * @private
      */
     @action
-    private async walletBalanceSubscription (err?: Error | undefined) {
+    private async walletBalanceSubscription () {
         if (this.state.balanceUpdating) return;
 
         this.setState("balanceUpdating", true);
 
-        if (err && this.#debugMode) this.#errorFunction?.(err);
-
         const changeForChain = this.state.accountChain;
+        const changeForAccount = this.data.accountAddress;
+
+        let accountBalance: BigNumber,
+            tokenBalances: { [key: string]: BigNumber },
+            accountBalances: { [key: string]: BigNumber };
+
+        try {
+            [ accountBalance, tokenBalances, accountBalances ] = await Promise.all([
+                // Balance errors reach the block subscription to delay next updates
+                this.getAccountBalance(changeForAccount, changeForChain, true),
+                this.getTokenBalances(changeForAccount, changeForChain),
+                this.getAccountsBalances(this.state.accounts, changeForChain)
+            ]);
+        } catch (err) {
+            this.setState("balanceUpdating", false);
 
-        const accountBalance = await this.getAccountBalance(this.data.accountAddress, this.state.accountChain);
+            throw err;
+        }
 
-        if (!this.state.connected || changeForChain !== this.state.accountChain) {
+        if ((!this.state.connected && !this.state.watchMode) || changeForChain !== this.state.accountChain
+            || changeForAccount !== this.data.accountAddress) {
             if (this.#debugMode) this.#errorFunction?.("Chain changed before balance update finished");
 
             this.setState("balanceUpdating", false);
@@ -634,69 +3204,93 @@ class EvmWalletController extends BaseController<IEvmWalletState, Partial<IEvmWa
         this.callEvent("balanceUpdated", accountBalance);
         this.setState({
             balance: accountBalance,
+            accountBalances: { ...this.state.accountBalances, ...accountBalances },
             balanceUpdating: false
         });
+
+        this.updateTokenBalances(tokenBalances, true);
     }
 
     /**
-     * Method for handling WalletConnect custom disconnect events.
+     * Method for handling provider disconnect events, handled only
+     * if the connected wallet connector requires it.
      * @private
      */
     @action
-    private walletConnectDisconnectSubscription () {
-        if (this.data.connectedWalletKey?.toLowerCase() === "walletconnect") this.disconnectWallet();
+    private walletDisconnectSubscription () {
+        if (this.getConnectedConnector()?.disconnectOnProviderDisconnect) this.disconnectWallet();
     }
 
-    /** Method for adding a listener to the wallet connect event. */
-    public addEventListener (event: "walletConnected", listener: (account: string, walletKey: string) => void): void;
-
-    /** Method for adding a listener to the wallet disconnect event. */
-    public addEventListener (event: "walletDisconnected", listener: () => void): void;
-
-    /** Method for adding a listener to the connected account change event. */
-    public addEventListener (event: "accountChanged", listener: (account: string) => void): void;
+    /**
+     * Method for adding a listener to a specific event.
+     *
+     * walletConnected and controllerInitialized listeners are called immediately
+     * if the wallet is already connected or the controller is already initialized.
+     *
+     * @param {TEvmWalletEvents} event name of the desired event.
+     * @param {IEvmWalletEvents[K]} listener callback function.
+     * @return {TEventUnsubscribe} function for removing the listener.
+     */
+    @observable
+    public addEventListener<K extends TEvmWalletEvents> (event: K, listener: IEvmWalletEvents[K]): TEventUnsubscribe {
+        const unsubscribe = this.#events.on(event, listener);
 
-    /** Method for adding a listener to the current account balance change event. */
-    public addEventListener (event: "balanceUpdated", listener: (balance: BigNumber) => void): void;
+        const currentArgs = this.getCurrentEventArgs(event);
 
-    /** Method for adding a listener to the network change event of the current account. */
-    public addEventListener (event: "networkChanged", listener: (networkId: number) => void): void;
+        if (currentArgs) (listener as (...args: Parameters<IEvmWalletEvents[K]>) => void)(...currentArgs);
 
-    /** Method for adding a listener to the initialization event. */
-    public addEventListener (event: "controllerInitialized", listener: (networkId: number) => void): void;
+        return unsubscribe;
+    }
 
     /**
-     * Method for adding a listener to a specific event.
+     * Method for adding a listener that is removed after the first call.
      *
      * @param {TEvmWalletEvents} event name of the desired event.
-     * @param {Function} listener callback function.
+     * @param {IEvmWalletEvents[K]} listener callback function.
+     * @return {TEventUnsubscribe} function for removing the listener before the call.
      */
-    @observable
-    public addEventListener (event: TEvmWalletEvents, listener: Function) {
-        if (!this.#eventListeners[event]) this.#eventListeners[event] = [];
+    public once<K extends TEvmWalletEvents> (event: K, listener: IEvmWalletEvents[K]): TEventUnsubscribe {
+        const currentArgs = this.getCurrentEventArgs(event);
 
-        if (event === "walletConnected" && this.state.connected)
-            this.callEvent("walletConnected", this.data.accountAddress, this.data.connectedWalletKey);
+        if (!currentArgs) return this.#events.once(event, listener);
 
-        if (event === "controllerInitialized" && this.state.loading === false)
-            this.callEvent("controllerInitialized");
+        (listener as (...args: Parameters<IEvmWalletEvents[K]>) => void)(...currentArgs);
+
+        return () => undefined;
+    }
+
+    /**
+     * Method for waiting for an event with arguments matching the predicate.
+     *
+     * @example
+     * await evmWallet.waitFor("networkChanged", chainId => chainId === 56, 30000);
+     *
+     * @param {TEvmWalletEvents} event name of the desired event.
+     * @param {(...args: Parameters<IEvmWalletEvents[K]>) => boolean} predicate arguments filter.
+     * @param {number} timeout time after which the promise is rejected (ms, default: no timeout).
+     * @return {Promise<Parameters<IEvmWalletEvents[K]>>} event arguments.
+     */
+    public waitFor<K extends TEvmWalletEvents> (
+        event: K,
+        predicate?: (...args: Parameters<IEvmWalletEvents[K]>) => boolean,
+        timeout?: number
+    ): Promise<Parameters<IEvmWalletEvents[K]>> {
+        const currentArgs = this.getCurrentEventArgs(event);
 
-        if (this.#eventListeners[event]?.find(fn => String(fn) === String(event))) return;
+        if (currentArgs && (!predicate || predicate(...currentArgs))) return Promise.resolve(currentArgs);
 
-        this.#eventListeners[event]?.push(listener);
+        return this.#events.waitFor(event, predicate, timeout);
     }
 
     /**
      * Method for removing a specific listener for an event.
      *
      * @param {TEvmWalletEvents} event name of the desired event.
-     * @param {Function} listener callback function.
+     * @param {IEvmWalletEvents[K]} listener callback function.
      */
     @observable
-    public removeEventListener (event: TEvmWalletEvents, listener: Function) {
-        if (!this.#eventListeners[event]) return;
-
-        this.#eventListeners[event] = this.#eventListeners[event]?.filter(fn => String(fn) !== String(listener));
+    public removeEventListener<K extends TEvmWalletEvents> (event: K, listener: IEvmWalletEvents[K]) {
+        this.#events.off(event, listener);
     }
 
     /**
@@ -706,21 +3300,49 @@ class EvmWalletController extends BaseController<IEvmWalletState, Partial<IEvmWa
      */
     @observable
     public removeEventListeners (event?: TEvmWalletEvents) {
-        if (!event) this.#eventListeners = {};
-        else this.#eventListeners[event] = [];
+        this.#events.offAll(event);
+    }
+
+    /**
+     * Method for getting arguments of the already happened state event (wallet connected
+     * or controller initialized), such events are replayed for new listeners.
+     *
+     * @param {TEvmWalletEvents} event name of the desired event.
+     * @return {Parameters<IEvmWalletEvents[K]> | undefined} event arguments.
+     * @private
+     */
+    private getCurrentEventArgs<K extends TEvmWalletEvents> (event: K): Parameters<IEvmWalletEvents[K]> | undefined {
+        let currentArgs: unknown[] | undefined;
+
+        if (event === "walletConnected" && this.state.connected && this.data.accountAddress)
+            currentArgs = [ this.data.accountAddress, this.data.connectedWalletKey ];
+
+        if (event === "controllerInitialized" && this.state.loading === false) currentArgs = [];
+
+        return currentArgs as Parameters<IEvmWalletEvents[K]> | undefined;
     }
 
     /**
      * Method to trigger a specific event within a controller.
      *
      * @param {TEvmWalletEvents} event name of the desired event.
-     * @param {any} args arguments for the event callback function.
+     * @param {Parameters<IEvmWalletEvents[K]>} args arguments for the event callback function.
      * @private
      */
-    private callEvent (event: TEvmWalletEvents, ...args: any) {
-        if (this.#eventListeners[event]) this.#eventListeners[event]?.forEach(eventCallback => eventCallback(...args));
+    private callEvent<K extends TEvmWalletEvents> (event: K, ...args: Parameters<IEvmWalletEvents[K]>) {
+        this.#events.emit(event, ...args);
     }
 }
 
-const evmWallet = new EvmWalletController();
+/**
+ * Function for creating an isolated EVM wallets controller.
+ *
+ * @param {IEvmWalletControllerOptions} options controller options.
+ * @return {EvmWalletController} controller instance.
+ */
+export function createEvmWalletController (options?: IEvmWalletControllerOptions) {
+    return new EvmWalletController(options);
+}
+
+const evmWallet = createEvmWalletController();
 export default evmWallet;
@@ -0,0 +1,39 @@
+import { MetaMaskInpageProvider } from "@metamask/providers";
+import { TInstalledWallet } from "../utils/get-installed-wallets";
+import { IWalletConnector, TWalletConnectorMetadata } from "./wallet-connector";
+
+/**
+ * Connector for the wallets injected into the page (browser extensions and in-app browsers).
+ */
+export default class InjectedConnector implements IWalletConnector {
+    public readonly id: string;
+
+    public readonly metadata: TWalletConnectorMetadata;
+
+    public readonly provider: MetaMaskInpageProvider;
+
+    /**
+     * Connector for the wallets injected into the page.
+     *
+     * @param {TInstalledWallet} wallet installed wallet, its rdns is used as connector ID.
+     */
+    constructor (wallet: TInstalledWallet) {
+        this.id = wallet.rdns;
+        this.metadata = { name: wallet.name, icon: wallet.icon, rdns: wallet.rdns };
+        this.provider = wallet.provider;
+    }
+
+    public async detect () {
+        return true;
+    }
+
+    public async connect () {
+        return this.provider;
+    }
+
+    public async restoreSession () {
+        return this.provider;
+    }
+
+    public async disconnect () { }
+}
@@ -0,0 +1,190 @@
+import { MetaMaskInpageProvider } from "@metamask/providers";
+import type EthereumProvider from "@walletconnect/ethereum-provider";
+import type { EthereumProviderOptions } from "@walletconnect/ethereum-provider";
+import { getNetworksRpcMap } from "../utils/network-utils";
+import { InvalidParamsError } from "../utils/wallet-errors";
+import { getWalletIcon } from "../utils/wallet-icons";
+import { IWalletConnector, TWalletConnectorContext } from "./wallet-connector";
+
+/**
+ * Legacy WalletConnect v1 local storage data key, cleared on session restore.
+ * @type {string}
+ */
+export const WalletConnectDataStorageKey = "walletconnect";
+
+export type TWalletConnectOptions = {
+    /** WalletConnect Cloud project ID. */
+    projectId: string;
+
+    /** Application metadata displayed in the wallet. */
+    metadata?: EthereumProviderOptions["metadata"];
+
+    /**
+     * Show built-in QR code modal (default: true), disable it to render
+     * your own QR code with the pairingUri event.
+     */
+    showQrModal?: boolean;
+
+    /**
+     * IDs of the chains the wallet must support, other chains of the
+     * networks list are optional (default: no required chains).
+     */
+    requiredChains?: number[];
+}
+
+/**
+ * WalletConnect v2 connector.
+ */
+export default class WalletConnectConnector implements IWalletConnector {
+    public readonly id = "walletconnect";
+
+    public readonly metadata = { name: "WalletConnect", icon: getWalletIcon("walletconnect") };
+
+    public readonly disconnectOnProviderDisconnect = true;
+
+    public provider?: MetaMaskInpageProvider;
+
+    readonly #options: TWalletConnectOptions;
+
+    #sessionExpiryTimeout?: any;
+
+    /** WalletConnect provider initialization, provider is created once per connector. */
+    #providerPromise?: Promise<EthereumProvider>;
+
+    /** Context of the last connection or session restore. */
+    #context?: TWalletConnectorContext;
+
+    /**
+     * WalletConnect v2 connector.
+     * @param {TWalletConnectOptions} options WalletConnect options.
+     */
+    constructor (options: TWalletConnectOptions) {
+        this.#options = options;
+    }
+
+    public async detect () {
+        return Boolean(this.#options.projectId);
+    }
+
+    public async connect (context: TWalletConnectorContext) {
+        const walletConnectProvider = await this.getProvider(context);
+
+        const displayUriListener = (uri: string) => context.onDisplayUri(uri);
+
+        walletConnectProvider.on("display_uri", displayUriListener);
+
+        try {
+            await walletConnectProvider.enable();
+        } finally {
+            walletConnectProvider.removeListener("display_uri", displayUriListener);
+        }
+
+        return this.setProvider(walletConnectProvider, context);
+    }
+
+    public async restoreSession (context: TWalletConnectorContext) {
+        // WalletConnect v1 relay is shut down, its sessions can't be restored
+        context.removeStorageItem(WalletConnectDataStorageKey);
+
+        const walletConnectProvider = await this.getProvider(context);
+
+        const session = walletConnectProvider.session;
+
+        if (!session) return undefined;
+
+        if (session.expiry * 1000 <= Date.now()) {
+            await walletConnectProvider.disconnect().catch(() => undefined);
+
+            return undefined;
+        }
+
+        return this.setProvider(walletConnectProvider, context);
+    }
+
+    public async disconnect () {
+        const walletConnectProvider = this.provider as any as EthereumProvider | undefined;
+
+        this.provider = undefined;
+
+        if (this.#sessionExpiryTimeout) clearTimeout(this.#sessionExpiryTimeout);
+
+        if (walletConnectProvider?.session) await walletConnectProvider.disconnect();
+    }
+
+    /**
+     * Method for getting WalletConnect provider with namespaces built from the networks list,
+     * persisted session is loaded on provider creation.
+     *
+     * @param {TWalletConnectorContext} context controller context.
+     * @return {Promise<EthereumProvider>} WalletConnect provider.
+     * @private
+     */
+    private getProvider (context: TWalletConnectorContext) {
+        this.#context = context;
+
+        if (!this.#providerPromise) this.#providerPromise = this.createProvider(context).catch(err => {
+            this.#providerPromise = undefined;
+
+            throw err;
+        });
+
+        return this.#providerPromise;
+    }
+
+    /**
+     * Method for creating WalletConnect provider, WalletConnect is loaded on demand
+     * so the controller can be imported without its ESM dependencies.
+     *
+     * @param {TWalletConnectorContext} context controller context.
+     * @return {Promise<EthereumProvider>} WalletConnect provider.
+     * @throws {InvalidParamsError} networks list has no optional chains.
+     * @private
+     */
+    private async createProvider (context: TWalletConnectorContext) {
+        const chainIds = Object.keys(context.networksList).map(Number);
+        const requiredChains = this.#options.requiredChains ?? [];
+
+        const [ optionalChain, ...optionalChains ] = chainIds.filter(chainId => !requiredChains.includes(chainId));
+
+        if (optionalChain === undefined)
+            throw new InvalidParamsError("WalletConnect requires networks besides the required chains");
+
+        const { EthereumProvider } = await import("@walletconnect/ethereum-provider");
+
+        const walletConnectProvider = await EthereumProvider.init({
+            projectId: this.#options.projectId,
+            metadata: this.#options.metadata,
+            showQrModal: this.#options.showQrModal ?? true,
+            chains: requiredChains,
+            optionalChains: [ optionalChain, ...optionalChains ],
+            rpcMap: getNetworksRpcMap(context.networksList)
+        });
+
+        walletConnectProvider.on("session_delete", () => this.#context?.onDisconnect());
+
+        return walletConnectProvider;
+    }
+
+    /**
+     * Method for setting connected provider and handling session deletion and expiry.
+     *
+     * @param {EthereumProvider} walletConnectProvider connected WalletConnect provider.
+     * @param {TWalletConnectorContext} context controller context.
+     * @return {MetaMaskInpageProvider} wallet provider.
+     * @private
+     */
+    private setProvider (walletConnectProvider: EthereumProvider, context: TWalletConnectorContext) {
+        this.provider = walletConnectProvider as any as MetaMaskInpageProvider;
+
+        const sessionExpiry = walletConnectProvider.session?.expiry;
+
+        if (this.#sessionExpiryTimeout) clearTimeout(this.#sessionExpiryTimeout);
+
+        if (sessionExpiry) this.#sessionExpiryTimeout = setTimeout(
+            () => context.onDisconnect(),
+            sessionExpiry * 1000 - Date.now()
+        );
+
+        return this.provider;
+    }
+}
@@ -0,0 +1,78 @@
+import { MetaMaskInpageProvider } from "@metamask/providers";
+import { TNetworkInfo } from "../utils/network-utils";
+
+export type TWalletConnectorMetadata = {
+    /** Human-readable wallet name. */
+    name: string;
+
+    /** Wallet icon URL or data URI. */
+    icon: string;
+
+    /** Reverse domain name of the wallet (EIP-6963), if known. */
+    rdns?: string;
+}
+
+export type TWalletConnectorContext = {
+    /** List of available networks of the controller. */
+    networksList: { [key: number]: TNetworkInfo };
+
+    /** Function for disconnecting the wallet when the session ends outside the controller. */
+    onDisconnect: () => void;
+
+    /** Function for passing a pairing URI to render a QR code. */
+    onDisplayUri: (uri: string) => void;
+
+    /** Function for removing an item of the controller storage, key prefix is added by the controller. */
+    removeStorageItem: (key: string) => void;
+}
+
+/**
+ * Wallet connector, provides a wallet provider to the controller.
+ *
+ * Connector ID is cached by the controller and used to restore
+ * the session on the next initialization.
+ */
+export interface IWalletConnector {
+    /** Unique connector ID. */
+    readonly id: string;
+
+    /** Wallet metadata. */
+    readonly metadata: TWalletConnectorMetadata;
+
+    /** Wallet provider, available after connection or session restore. */
+    readonly provider?: MetaMaskInpageProvider;
+
+    /**
+     * True if the provider disconnect event should disconnect the wallet,
+     * injected providers emit it on temporary RPC failures.
+     */
+    readonly disconnectOnProviderDisconnect?: boolean;
+
+    /**
+     * Method for checking if the wallet is available for connection.
+     * @return {Promise<boolean>} true if the wallet can be connected.
+     */
+    detect (): Promise<boolean>;
+
+    /**
+     * Method for connecting the wallet, may prompt the user.
+     *
+     * @param {TWalletConnectorContext} context controller context.
+     * @return {Promise<MetaMaskInpageProvider>} wallet provider.
+     */
+    connect (context: TWalletConnectorContext): Promise<MetaMaskInpageProvider>;
+
+    /**
+     * Method for restoring the previous session without prompting the user.
+     *
+     * @param {TWalletConnectorContext} context controller context.
+     * @return {Promise<MetaMaskInpageProvider | undefined>} wallet provider or undefined if session not found.
+     */
+    restoreSession (context: TWalletConnectorContext): Promise<MetaMaskInpageProvider | undefined>;
+
+    /**
+     * Method for ending the wallet session.
+     * @return {Promise<void>}
+     */
+    disconnect (): Promise<void>;
+}
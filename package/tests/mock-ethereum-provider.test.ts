@@ -0,0 +1,114 @@
+import MockEthereumProvider, { MockAccountAddress } from "../utils/mock-ethereum-provider";
+
+describe("Mock ethereum provider", () => {
+    it("Authorizes accounts on eth_requestAccounts", async () => {
+        const provider = new MockEthereumProvider();
+
+        expect(await provider.request({ method: "eth_accounts" })).toEqual([]);
+        expect(await provider.request({ method: "eth_requestAccounts" })).toEqual([ MockAccountAddress ]);
+        expect(await provider.request({ method: "eth_accounts" })).toEqual([ MockAccountAddress ]);
+    });
+
+    it("Serves chain ID and balances of the current chain", async () => {
+        const provider = new MockEthereumProvider({
+            chainId: 56,
+            balances: { 56: { [MockAccountAddress]: "1000000000000000000" } }
+        });
+
+        expect(await provider.request({ method: "eth_chainId" })).toBe("0x38");
+
+        expect(await provider.request({ method: "eth_getBalance", params: [ MockAccountAddress, "latest" ] }))
+            .toBe("0xde0b6b3a7640000");
+
+        provider.setChainId(1);
+
+        expect(await provider.request({ method: "eth_getBalance", params: [ MockAccountAddress, "latest" ] }))
+            .toBe("0x0");
+    });
+
+    it("Emits wallet events", () => {
+        const provider = new MockEthereumProvider({ authorized: true });
+
+        const accountsListener = jest.fn(), chainListener = jest.fn(), disconnectListener = jest.fn();
+
+        provider.on("accountsChanged", accountsListener);
+        provider.on("chainChanged", chainListener);
+        provider.on("disconnect", disconnectListener);
+
+        provider.setAccounts([]);
+        provider.setChainId(250);
+        provider.disconnect();
+
+        expect(accountsListener).toHaveBeenCalledWith([]);
+        expect(chainListener).toHaveBeenCalledWith("0xfa");
+        expect(disconnectListener).toHaveBeenCalledWith(expect.objectContaining({ code: 4900 }));
+
+        provider.removeListener("chainChanged", chainListener);
+        provider.setChainId(1);
+
+        expect(chainListener).toHaveBeenCalledTimes(1);
+    });
+
+    it("Rejects the next request of the method", async () => {
+        const provider = new MockEthereumProvider();
+
+        provider.rejectNext("eth_requestAccounts");
+        provider.rejectNext("eth_requestAccounts", { code: -32002, message: "Request already pending" });
+
+        await expect(provider.request({ method: "eth_requestAccounts" })).rejects.toMatchObject({ code: 4001 });
+        await expect(provider.request({ method: "eth_requestAccounts" })).rejects.toMatchObject({ code: -32002 });
+        await expect(provider.request({ method: "eth_requestAccounts" })).resolves.toEqual([ MockAccountAddress ]);
+    });
+
+    it("Delays responses with the state of the request moment", async () => {
+        const provider = new MockEthereumProvider({ balances: { 1: { [MockAccountAddress]: "1" } } });
+
+        provider.setDelay(50, "eth_getBalance");
+
+        const balanceRequest = provider.request({ method: "eth_getBalance", params: [ MockAccountAddress ] });
+
+        provider.setBalance(MockAccountAddress, "2");
+
+        expect(await balanceRequest).toBe("0x1");
+    });
+
+    it("Rejects switching to an unknown chain until it is added", async () => {
+        const provider = new MockEthereumProvider();
+
+        const switchRequest = { method: "wallet_switchEthereumChain", params: [ { chainId: "0x38" } ] };
+
+        await expect(provider.request(switchRequest)).rejects.toMatchObject({ code: 4902 });
+
+        await provider.request({ method: "wallet_addEthereumChain", params: [ { chainId: "0x38" } ] });
+        await provider.request(switchRequest);
+
+        expect(provider.chainId).toBe(56);
+    });
+
+    it("Notifies newHeads subscribers about new blocks", async () => {
+        const provider = new MockEthereumProvider();
+
+        const messageListener = jest.fn();
+
+        provider.on("message", messageListener);
+
+        const subscriptionId = await provider.request({ method: "eth_subscribe", params: [ "newHeads" ] });
+
+        provider.mineBlock();
+
+        expect(messageListener).toHaveBeenCalledWith({
+            type: "eth_subscription",
+            data: { subscription: subscriptionId, result: { number: "0x2" } }
+        });
+    });
+
+    it("Rejects unsupported methods and uses custom handlers", async () => {
+        const provider = new MockEthereumProvider();
+
+        await expect(provider.request({ method: "personal_sign" })).rejects.toMatchObject({ code: 4200 });
+
+        provider.setHandler("personal_sign", () => "0xsignature");
+
+        expect(await provider.request({ method: "personal_sign" })).toBe("0xsignature");
+    });
+});
@@ -0,0 +1,139 @@
+import { MetaMaskInpageProvider } from "@metamask/providers";
+
+export type TBlockSubscriptionOptions = {
+    /** Wallet or read-only provider, newHeads subscription is used only if the provider emits messages. */
+    provider: Pick<MetaMaskInpageProvider, "request"> & Partial<Pick<MetaMaskInpageProvider, "on" | "removeListener">>;
+
+    /** eth_blockNumber polling interval, used if newHeads subscription is not supported (ms). */
+    pollingInterval: number;
+
+    /** Maximum delay between requests after errors (ms, default: 60000). */
+    maxBackoffInterval?: number;
+
+    /**
+     * New block handler, called only while the document is visible.
+     * Rejected promise delays next calls with exponential backoff.
+     */
+    onBlock: (blockNumber: number) => Promise<void> | void;
+
+    /** Request or handler errors callback. */
+    onError?: (error: any) => void;
+}
+
+/**
+ * Function for subscribing to new blocks of the wallet chain.
+ *
+ * newHeads subscription is used if the provider supports it, otherwise
+ * block number is polled with eth_blockNumber. Handler calls are paused
+ * while the document is hidden and delayed exponentially on errors.
+ *
+ * @param {TBlockSubscriptionOptions} options subscription options.
+ * @return {() => void} unsubscribe function.
+ */
+export default function createBlockSubscription (options: TBlockSubscriptionOptions): () => void {
+    const { provider, pollingInterval, maxBackoffInterval = 60000, onBlock, onError } = options;
+
+    let active = true;
+    let handling = false;
+    let failures = 0;
+    let retryAt = 0;
+
+    let lastBlockNumber: number | undefined;
+    let handledBlockNumber: number | undefined;
+
+    let subscriptionId: string | undefined;
+    let pollingTimeout: any;
+
+    const isHidden = () => typeof document !== "undefined" && document.visibilityState === "hidden";
+
+    const getBackoffInterval = () => Math.min(pollingInterval * 2 ** failures, maxBackoffInterval);
+
+    const handleFailure = (error: any) => {
+        failures++;
+        retryAt = Date.now() + getBackoffInterval();
+
+        onError?.(error);
+    };
+
+    const handleBlock = async () => {
+        if (!active || handling || isHidden() || Date.now() < retryAt) return;
+
+        if (lastBlockNumber === undefined || lastBlockNumber === handledBlockNumber) return;
+
+        const blockNumber = lastBlockNumber;
+
+        handling = true;
+
+        try {
+            await onBlock(blockNumber);
+
+            handledBlockNumber = blockNumber;
+            failures = 0;
+        } catch (err) {
+            handleFailure(err);
+        }
+
+        handling = false;
+    };
+
+    const poll = async () => {
+        if (!active) return;
+
+        if (!isHidden() && Date.now() >= retryAt) {
+            try {
+                const blockNumber = await provider.request<string>({ method: "eth_blockNumber" });
+
+                lastBlockNumber = Number.parseInt(String(blockNumber), 16);
+
+                await handleBlock();
+            } catch (err) {
+                handleFailure(err);
+            }
+        }
+
+        if (active) pollingTimeout = setTimeout(poll, failures > 0 ? getBackoffInterval() : pollingInterval);
+    };
+
+    const messageListener = (message: any) => {
+        if (message?.type !== "eth_subscription" || message.data?.subscription !== subscriptionId) return;
+
+        lastBlockNumber = Number.parseInt(message.data.result?.number, 16);
+
+        handleBlock();
+    };
+
+    const visibilityListener = () => {
+        if (!isHidden()) handleBlock();
+    };
+
+    if (typeof document !== "undefined") document.addEventListener("visibilitychange", visibilityListener);
+
+    if (!provider.on) poll();
+    else provider.request<string>({ method: "eth_subscribe", params: [ "newHeads" ] })
+        .then(id => {
+            if (!id) throw new Error("Subscription ID not received");
+
+            subscriptionId = id;
+
+            if (!active) {
+                provider.request({ method: "eth_unsubscribe", params: [ id ] }).catch(() => undefined);
+                return;
+            }
+
+            provider.on?.("message", messageListener);
+        })
+        .catch(() => poll());
+
+    return () => {
+        active = false;
+
+        clearTimeout(pollingTimeout);
+
+        if (typeof document !== "undefined") document.removeEventListener("visibilitychange", visibilityListener);
+
+        if (!subscriptionId) return;
+
+        provider.removeListener?.("message", messageListener);
+        provider.request({ method: "eth_unsubscribe", params: [ subscriptionId ] }).catch(() => undefined);
+    };
+}
@@ -0,0 +1,66 @@
+import { TNetworkInfo } from "./network-utils";
+import { InvalidParamsError } from "./wallet-errors";
+
+export type TChainPolicy = {
+    /** Chain the wallet is switched to (default: first allowed chain or first network of the networks list). */
+    defaultChainId?: number;
+
+    /** Chains allowed for the application or page (default: all networks of the networks list). */
+    allowedChainIds?: number[];
+
+    /** Ask the wallet to switch to the default chain after connection and on disallowed chain change. */
+    autoSwitch?: boolean;
+
+    /**
+     * Number of automatic switch requests while the wallet stays on disallowed chains,
+     * counter is reset when the wallet gets to an allowed chain (default: 1).
+     */
+    maxSwitchAttempts?: number;
+}
+
+/**
+ * Function for validating the chain policy.
+ *
+ * @param {TChainPolicy} policy chain policy.
+ * @return {TChainPolicy} chain policy.
+ * @throws {InvalidParamsError} default chain is not allowed or switch attempts number is invalid.
+ */
+export function validateChainPolicy (policy: TChainPolicy): TChainPolicy {
+    const { defaultChainId, allowedChainIds, maxSwitchAttempts } = policy;
+
+    if (defaultChainId !== undefined && allowedChainIds && !allowedChainIds.includes(defaultChainId))
+        throw new InvalidParamsError("Default chain " + defaultChainId + " is not allowed by the chain policy");
+
+    if (maxSwitchAttempts !== undefined && (!Number.isInteger(maxSwitchAttempts) || maxSwitchAttempts < 0))
+        throw new InvalidParamsError("Invalid number of chain switch attempts: " + maxSwitchAttempts);
+
+    return policy;
+}
+
+/**
+ * Function for checking if the chain satisfies the chain policy, chains missing
+ * in the networks list are never allowed.
+ *
+ * @param {TChainPolicy} policy chain policy.
+ * @param {number} chainId wallet chain ID.
+ * @param {{[p: number]: TNetworkInfo}} networksList available networks.
+ * @return {boolean} true if the chain is allowed.
+ */
+export function isChainAllowed (policy: TChainPolicy, chainId: number, networksList: { [key: number]: TNetworkInfo }) {
+    if (chainId <= 0 || !networksList[chainId]) return false;
+
+    return !policy.allowedChainIds || policy.allowedChainIds.includes(chainId);
+}
+
+/**
+ * Function for getting the chain the wallet should be switched to.
+ *
+ * @param {TChainPolicy} policy chain policy.
+ * @param {{[p: number]: TNetworkInfo}} networksList available networks.
+ * @return {number | undefined} chain ID or undefined if networks list is empty.
+ */
+export function getPolicyChainId (policy: TChainPolicy, networksList: { [key: number]: TNetworkInfo }) {
+    const chainId = policy.defaultChainId ?? policy.allowedChainIds?.[0] ?? Number(Object.keys(networksList)[0]);
+
+    return Number.isFinite(chainId) ? chainId : undefined;
+}
@@ -0,0 +1,120 @@
+import { TNetworkInfo, TRpcVariables, validateNetworkInfo } from "./network-utils";
+
+/**
+ * Network entry of the chainlist chains.json.
+ * @see https://github.com/ethereum-lists/chains
+ */
+export type TChainlistEntry = {
+    name: string;
+    chain?: string;
+    chainId: number;
+    rpc: string[];
+    nativeCurrency: {
+        name: string;
+        symbol: string;
+        decimals: number;
+    };
+    explorers?: { name?: string, url: string, standard?: string }[];
+    status?: string;
+}
+
+export type TChainlistImportOptions = {
+    /** IDs of the imported chains (default: all chains). */
+    chainIds?: number[];
+
+    /** Values of the rpc URL variables by name, e.g. { INFURA_API_KEY: "..." }. */
+    variables?: TRpcVariables;
+}
+
+export type TChainlistImportResult = {
+    /** Imported networks by chain ID. */
+    networksList: { [key: number]: TNetworkInfo };
+
+    /** Entries skipped during validation. */
+    invalidEntries: { chainId?: unknown, name?: unknown, reason: string }[];
+}
+
+/**
+ * Function for converting a chainlist entry to the network info.
+ *
+ * @param {TChainlistEntry} entry chainlist entry.
+ * @return {TNetworkInfo} network info, not validated.
+ */
+export function getChainlistNetworkInfo (entry: TChainlistEntry): TNetworkInfo {
+    const explorers = (entry.explorers ?? [])
+        .map(explorer => explorer?.url)
+        .filter((url): url is string => typeof url === "string" && /^https?:\/\//i.test(url));
+
+    return {
+        name: entry.name,
+        currency: entry.nativeCurrency?.symbol,
+        currencyName: entry.nativeCurrency?.name,
+        decimals: entry.nativeCurrency?.decimals,
+        rpc: Array.isArray(entry.rpc) ? entry.rpc : [],
+        explorers: explorers.length > 0 ? explorers : undefined
+    };
+}
+
+/**
+ * Function for importing networks from the chainlist chains.json.
+ *
+ * Entries with invalid chain ID or currency, deprecated entries and entries
+ * without valid rpc URLs are skipped.
+ *
+ * @param {unknown} chains parsed chains.json content.
+ * @param {TChainlistImportOptions} options import options.
+ * @return {TChainlistImportResult} imported networks and skipped entries.
+ */
+export function parseChainlist (chains: unknown, options: TChainlistImportOptions = {}): TChainlistImportResult {
+    const result: TChainlistImportResult = { networksList: {}, invalidEntries: [] };
+
+    if (!Array.isArray(chains)) {
+        result.invalidEntries.push({ reason: "Chains list is not an array" });
+
+        return result;
+    }
+
+    chains.forEach((entry: TChainlistEntry) => {
+        const chainId = entry?.chainId;
+
+        if (options.chainIds && !options.chainIds.includes(chainId)) return;
+
+        if (!entry || typeof entry !== "object") {
+            result.invalidEntries.push({ reason: "Entry is not an object" });
+
+            return;
+        }
+
+        if (entry.status === "deprecated") {
+            result.invalidEntries.push({ chainId, name: entry.name, reason: "Network is deprecated" });
+
+            return;
+        }
+
+        try {
+            result.networksList[chainId] = validateNetworkInfo(
+                chainId,
+                getChainlistNetworkInfo(entry),
+                options.variables
+            );
+        } catch (err: any) {
+            result.invalidEntries.push({ chainId, name: entry.name, reason: err?.message ?? String(err) });
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Function for loading the chainlist chains.json from URL.
+ *
+ * @param {string} url chains.json URL.
+ * @return {Promise<unknown>} parsed chains.json content.
+ */
+export async function fetchChainlist (url: string): Promise<unknown> {
+    const response = await fetch(url);
+
+    if (!response.ok) throw new Error("Chains list request failed with status " + response.status);
+
+    return response.json();
+}
@@ -0,0 +1,47 @@
+/**
+ * Wallet connection status.
+ *
+ * idle → detecting (session restore) → connecting → awaitingApproval → connected,
+ * connected → switchingChain → connected, any connected status → disconnecting → idle.
+ * Failed connection ends with the error status.
+ */
+export type TConnectionStatus = "idle"
+    | "detecting"
+    | "connecting"
+    | "awaitingApproval"
+    | "connected"
+    | "switchingChain"
+    | "disconnecting"
+    | "error"
+
+/**
+ * Allowed connection status transitions.
+ * @type {{[key in TConnectionStatus]: TConnectionStatus[]}}
+ */
+export const ConnectionStatusTransitions: { [key in TConnectionStatus]: TConnectionStatus[] } = {
+    idle: [ "detecting", "connecting", "error" ],
+    detecting: [ "connecting", "idle", "error" ],
+    connecting: [ "awaitingApproval", "connected", "disconnecting", "idle", "error" ],
+    awaitingApproval: [ "connecting", "connected", "disconnecting", "idle", "error" ],
+    connected: [ "connecting", "switchingChain", "disconnecting" ],
+    switchingChain: [ "connected", "disconnecting" ],
+    disconnecting: [ "idle" ],
+    error: [ "detecting", "connecting", "disconnecting", "idle" ]
+};
+
+/**
+ * Statuses of a pending connection, new connection attempts are rejected in these statuses.
+ * @type {TConnectionStatus[]}
+ */
+export const PendingConnectionStatuses: TConnectionStatus[] = [ "detecting", "connecting", "awaitingApproval" ];
+
+/**
+ * Function for checking if the connection status transition is allowed.
+ *
+ * @param {TConnectionStatus} from current status.
+ * @param {TConnectionStatus} to next status.
+ * @return {boolean} true if transition is allowed.
+ */
+export function canTransitionTo (from: TConnectionStatus, to: TConnectionStatus) {
+    return ConnectionStatusTransitions[from].includes(to);
+}
@@ -0,0 +1,262 @@
+import Web3 from "web3";
+import { TContractAbi } from "./erc20-utils";
+import { TTrackedTransaction, TTransactionRequest } from "./transaction-utils";
+import { ChainDisconnectedError, InvalidParamsError, toEvmWalletError } from "./wallet-errors";
+
+export type TAbiParameter = {
+    readonly name?: string;
+    readonly type: string;
+    readonly components?: readonly TAbiParameter[];
+}
+
+export type TAbiFunction = {
+    readonly type: "function";
+    readonly name: string;
+    readonly inputs: readonly TAbiParameter[];
+    readonly outputs?: readonly TAbiParameter[];
+    readonly stateMutability?: "pure" | "view" | "nonpayable" | "payable";
+    readonly constant?: boolean;
+}
+
+/** Contract ABI, declare it "as const" to get method names, arguments and results typed. */
+export type TAbi = readonly (TAbiFunction | { readonly type: string, readonly name?: string })[];
+
+/** TypeScript type of a method argument by its ABI type. */
+export type TAbiInputType<T extends string> = T extends `${ infer Item }[${ string }]` ? TAbiInputType<Item>[]
+    : T extends `uint${ string }` | `int${ string }` ? string | number
+        : T extends "bool" ? boolean
+            : T extends "address" | "string" | `bytes${ string }` ? string
+                : T extends "tuple" ? { [key: string]: unknown } | unknown[]
+                    : unknown;
+
+/** TypeScript type of a method result by its ABI type (web3 returns numbers as strings). */
+export type TAbiOutputType<T extends string> = T extends `${ infer Item }[${ string }]` ? TAbiOutputType<Item>[]
+    : T extends `uint${ string }` | `int${ string }` | "address" | "string" | `bytes${ string }` ? string
+        : T extends "bool" ? boolean
+            : T extends "tuple" ? { [key: string]: unknown }
+                : unknown;
+
+type TAbiParametersTypes<Params extends readonly TAbiParameter[]> = {
+    -readonly [K in keyof Params]: Params[K] extends TAbiParameter ? TAbiInputType<Params[K]["type"]> : never
+};
+
+type TAbiFunctions<Abi extends TAbi> = Extract<Abi[number], { type: "function" }>;
+
+/** Untyped ABIs (not declared "as const") accept any method name. */
+type TLooseName<Name> = [ Name ] extends [ never ] ? string : string extends Name ? string : Name;
+
+export type TAbiFunctionName<Abi extends TAbi> = TLooseName<TAbiFunctions<Abi>["name"]>;
+
+export type TAbiReadFunctionName<Abi extends TAbi> = TLooseName<
+    Extract<TAbiFunctions<Abi>, { stateMutability: "view" | "pure" } | { constant: true }>["name"]
+>;
+
+export type TAbiWriteFunctionName<Abi extends TAbi> = TLooseName<
+    Exclude<TAbiFunctions<Abi>["name"], TAbiReadFunctionName<Abi>>
+>;
+
+type TAbiFunctionItem<Abi extends TAbi, Name> = Extract<TAbiFunctions<Abi>, { name: Name }>;
+
+export type TAbiFunctionArgs<Abi extends TAbi, Name> = [ TAbiFunctionItem<Abi, Name> ] extends [ never ]
+    ? unknown[]
+    : TAbiParametersTypes<TAbiFunctionItem<Abi, Name>["inputs"]>;
+
+/** Result of a single output method, methods with multiple outputs return web3 result objects. */
+export type TAbiFunctionResult<Abi extends TAbi, Name> = TAbiFunctionItem<Abi, Name> extends {
+    outputs: readonly [ infer Output ]
+} ? Output extends TAbiParameter ? TAbiOutputType<Output["type"]> : any : any;
+
+/** Contract addresses by chain ID. */
+export type TContractAddresses = { [key: number]: string };
+
+export type TContractCallOptions = {
+    /**
+     * Contract chain ID (default: wallet chain if the contract is deployed there,
+     * otherwise the first chain of the contract addresses).
+     */
+    chainId?: number;
+}
+
+export type TContractWriteOptions = TContractCallOptions
+    & Pick<TTransactionRequest, "value" | "gas" | "gasPrice" | "maxFeePerGas" | "maxPriorityFeePerGas">
+    & {
+    /** Number of confirmations required for the confirmed status (default: 1). */
+    confirmations?: number;
+}
+
+export type TContractHandleContext = {
+    /** Function for getting the chain of the connected wallet, undefined if not connected or unsupported. */
+    getWalletChain: () => number | undefined;
+
+    /** Function for getting web3 for the read calls: wallet web3 if it is on the chain, otherwise read-only web3. */
+    getReadWeb3: (chainId: number) => Web3 | undefined;
+
+    /** Function for getting the connected or watched account, used as the read calls sender. */
+    getAccount: () => string | undefined;
+
+    /** Function for switching the wallet to the chain, resolved after the chain changed. */
+    ensureChain: (chainId: number) => Promise<void>;
+
+    /** Function for sending a transaction from the connected wallet. */
+    sendTransaction: (request: TTransactionRequest, confirmations?: number) => Promise<TTrackedTransaction>;
+}
+
+/**
+ * Contract handle with per-chain addresses.
+ *
+ * Read calls go through the wallet if it is on the contract chain, otherwise through
+ * the network rpc. Write calls switch the wallet to the contract chain first and are
+ * sent as tracked transactions.
+ */
+export default class ContractHandle<Abi extends TAbi = TAbi> {
+    public readonly name: string;
+
+    public readonly abi: Abi;
+
+    public readonly addresses: TContractAddresses;
+
+    readonly #context: TContractHandleContext;
+
+    /** Web3 instance without provider for the method data encoding. */
+    readonly #encoder = new Web3();
+
+    /**
+     * Contract handle with per-chain addresses.
+     *
+     * @param {string} name contract name.
+     * @param {Abi} abi contract ABI.
+     * @param {TContractAddresses} addresses contract addresses by chain ID.
+     * @param {TContractHandleContext} context controller context.
+     */
+    constructor (name: string, abi: Abi, addresses: TContractAddresses, context: TContractHandleContext) {
+        this.name = name;
+        this.abi = abi;
+        this.addresses = addresses;
+        this.#context = context;
+    }
+
+    /**
+     * Method for getting the contract chain ID.
+     *
+     * @param {number} chainId desired chain ID.
+     * @return {number} contract chain ID.
+     * @throws {ChainDisconnectedError} contract not deployed in the desired chain.
+     */
+    public getChainId (chainId?: number): number {
+        const walletChain = this.#context.getWalletChain();
+
+        const contractChain = chainId
+            ?? (walletChain !== undefined && this.addresses[walletChain] ? walletChain : undefined)
+            ?? Number(Object.keys(this.addresses)[0]);
+
+        if (!this.addresses[contractChain])
+            throw new ChainDisconnectedError("Contract " + this.name + " is not deployed in chain " + contractChain);
+
+        return contractChain;
+    }
+
+    /**
+     * Method for getting the contract address.
+     *
+     * @param {number} chainId desired chain ID (default: contract chain).
+     * @return {string} contract address.
+     * @throws {ChainDisconnectedError} contract not deployed in the desired chain.
+     */
+    public getAddress (chainId?: number): string {
+        return this.addresses[this.getChainId(chainId)] as string;
+    }
+
+    /**
+     * Method for encoding the method call data.
+     *
+     * @param {TAbiFunctionName<Abi>} method method name.
+     * @param {TAbiFunctionArgs<Abi, Name>} args method arguments.
+     * @return {string} transaction input data.
+     */
+    public encodeFunctionData<Name extends TAbiFunctionName<Abi>> (
+        method: Name,
+        args: TAbiFunctionArgs<Abi, Name>
+    ): string {
+        const contract = new this.#encoder.eth.Contract(this.abi as any as TContractAbi);
+
+        return this.getMethod(contract, method, args as unknown[]).encodeABI();
+    }
+
+    /**
+     * Method for calling a view or pure method of the contract.
+     *
+     * @param {TAbiReadFunctionName<Abi>} method method name.
+     * @param {TAbiFunctionArgs<Abi, Name>} args method arguments.
+     * @param {TContractCallOptions} options call options.
+     * @return {Promise<TAbiFunctionResult<Abi, Name>>} method result.
+     * @throws {EvmWalletError} network rpc not found or call failed.
+     */
+    public async read<Name extends TAbiReadFunctionName<Abi>> (
+        method: Name,
+        args: TAbiFunctionArgs<Abi, Name>,
+        options: TContractCallOptions = {}
+    ): Promise<TAbiFunctionResult<Abi, Name>> {
+        const chainId = this.getChainId(options.chainId);
+
+        const web3 = this.#context.getReadWeb3(chainId);
+
+        if (!web3) throw new ChainDisconnectedError("Network " + chainId + " rpc not found");
+
+        const contract = new web3.eth.Contract(this.abi as any as TContractAbi, this.addresses[chainId]);
+
+        try {
+            return await this.getMethod(contract, method, args as unknown[]).call({ from: this.#context.getAccount() });
+        } catch (err) {
+            throw toEvmWalletError(err);
+        }
+    }
+
+    /**
+     * Method for sending a transaction calling the contract method, wallet is switched
+     * to the contract chain first.
+     *
+     * @param {TAbiWriteFunctionName<Abi>} method method name.
+     * @param {TAbiFunctionArgs<Abi, Name>} args method arguments.
+     * @param {TContractWriteOptions} options transaction options.
+     * @return {Promise<TTrackedTransaction>} submitted transaction.
+     * @throws {EvmWalletError} wallet not connected, chain not switched or transaction rejected.
+     */
+    public async write<Name extends TAbiWriteFunctionName<Abi>> (
+        method: Name,
+        args: TAbiFunctionArgs<Abi, Name>,
+        options: TContractWriteOptions = {}
+    ): Promise<TTrackedTransaction> {
+        const { chainId, confirmations, ...transactionOptions } = options;
+
+        const contractChain = this.getChainId(chainId);
+
+        const data = this.encodeFunctionData(method, args);
+
+        await this.#context.ensureChain(contractChain);
+
+        return this.#context.sendTransaction({
+            ...transactionOptions,
+            to: this.addresses[contractChain],
+            data
+        }, confirmations);
+    }
+
+    /**
+     * Method for getting a contract method call.
+     *
+     * @param {Contract} contract web3 contract.
+     * @param {string} method method name.
+     * @param {unknown[]} args method arguments.
+     * @return {any} web3 method call.
+     * @throws {InvalidParamsError} method not found in the ABI.
+     * @private
+     */
+    private getMethod (contract: InstanceType<Web3["eth"]["Contract"]>, method: string, args: unknown[]) {
+        const contractMethod = contract.methods[method];
+
+        if (!contractMethod)
+            throw new InvalidParamsError("Method " + method + " not found in contract " + this.name + " ABI");
+
+        return contractMethod(...args);
+    }
+}
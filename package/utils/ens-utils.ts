@@ -0,0 +1,232 @@
+import { ens_normalize } from "@adraffy/ens-normalize";
+import Web3 from "web3";
+import { TContractAbi } from "./erc20-utils";
+import { InvalidParamsError } from "./wallet-errors";
+
+/**
+ * ENS registry address, same for the Ethereum Mainnet and testnets.
+ * @type {string}
+ */
+export const EnsRegistryAddress = "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e";
+
+/** ENS names are resolved only in the Ethereum Mainnet. */
+export const EnsChainId = 1;
+
+const ZeroAddress = "0x0000000000000000000000000000000000000000";
+
+export type TEnsProfile = {
+    /** Primary ENS name, verified with forward resolution. */
+    name: string;
+
+    /** Raw avatar text record. */
+    avatar?: string;
+
+    /** Avatar URL, resolved only for http, ipfs and data avatar records. */
+    avatarUrl?: string;
+
+    /** Requested text records by key, missing records are not included. */
+    texts: { [key: string]: string };
+}
+
+/**
+ * Minimal ENS registry ABI.
+ * @type {TContractAbi}
+ */
+export const EnsRegistryAbi: TContractAbi = [
+    {
+        constant: true,
+        inputs: [ { name: "node", type: "bytes32" } ],
+        name: "resolver",
+        outputs: [ { name: "", type: "address" } ],
+        stateMutability: "view",
+        type: "function"
+    }
+];
+
+/**
+ * Minimal ENS public resolver ABI.
+ * @type {TContractAbi}
+ */
+export const EnsResolverAbi: TContractAbi = [
+    {
+        constant: true,
+        inputs: [ { name: "node", type: "bytes32" } ],
+        name: "addr",
+        outputs: [ { name: "", type: "address" } ],
+        stateMutability: "view",
+        type: "function"
+    },
+    {
+        constant: true,
+        inputs: [ { name: "node", type: "bytes32" } ],
+        name: "name",
+        outputs: [ { name: "", type: "string" } ],
+        stateMutability: "view",
+        type: "function"
+    },
+    {
+        constant: true,
+        inputs: [ { name: "node", type: "bytes32" }, { name: "key", type: "string" } ],
+        name: "text",
+        outputs: [ { name: "", type: "string" } ],
+        stateMutability: "view",
+        type: "function"
+    }
+];
+
+/**
+ * Function for normalizing an ENS name (ENSIP-15), surrounding whitespace is removed.
+ *
+ * @param {string} name ENS name.
+ * @return {string} normalized name.
+ * @throws {InvalidParamsError} name contains disallowed characters or labels.
+ */
+export function normalizeEnsName (name: string) {
+    try {
+        return ens_normalize(name.trim());
+    } catch (err) {
+        throw new InvalidParamsError("Invalid ENS name: " + name, { cause: err });
+    }
+}
+
+/**
+ * Function for getting an ENS name node (EIP-137 namehash).
+ *
+ * @param {string} name normalized ENS name.
+ * @return {string} name node.
+ */
+export function getEnsNamehash (name: string): string {
+    let node = "0x" + "00".repeat(32);
+
+    if (!name) return node;
+
+    // Empty labels are skipped, web3 keccak256 returns null for empty input
+    name.split(".").filter(Boolean).reverse().forEach(label => {
+        const labelHash = Web3.utils.keccak256(Web3.utils.utf8ToHex(label));
+
+        node = Web3.utils.keccak256(node + labelHash.slice(2));
+    });
+
+    return node;
+}
+
+/**
+ * Function for getting a reverse resolution name of the address.
+ *
+ * @param {string} address account address.
+ * @return {string} reverse name ([address].addr.reverse).
+ */
+export function getEnsReverseName (address: string) {
+    return address.toLowerCase().replace(/^0x/, "") + ".addr.reverse";
+}
+
+/**
+ * Function for getting a resolver contract of the ENS name.
+ *
+ * @param {Web3} web3 Ethereum Mainnet web3 instance.
+ * @param {string} name normalized ENS name.
+ * @return {Promise<Contract | undefined>} resolver contract or undefined if resolver not set.
+ */
+export async function getEnsResolver (web3: Web3, name: string) {
+    const registry = new web3.eth.Contract(EnsRegistryAbi, EnsRegistryAddress);
+
+    const resolverAddress: string = await registry.methods.resolver(getEnsNamehash(name)).call();
+
+    if (!resolverAddress || resolverAddress === ZeroAddress) return undefined;
+
+    return new web3.eth.Contract(EnsResolverAbi, resolverAddress);
+}
+
+/**
+ * Function for resolving an address of the ENS name.
+ *
+ * @param {Web3} web3 Ethereum Mainnet web3 instance.
+ * @param {string} name ENS name.
+ * @return {Promise<string | undefined>} checksum address or undefined if name not resolved.
+ */
+export async function resolveEnsAddress (web3: Web3, name: string): Promise<string | undefined> {
+    const normalizedName = normalizeEnsName(name);
+
+    const resolver = await getEnsResolver(web3, normalizedName);
+
+    if (!resolver) return undefined;
+
+    const address: string = await resolver.methods.addr(getEnsNamehash(normalizedName)).call();
+
+    if (!address || address === ZeroAddress) return undefined;
+
+    return Web3.utils.toChecksumAddress(address);
+}
+
+/**
+ * Function for getting a primary ENS name of the address (reverse resolution).
+ *
+ * Name is returned only if it is normalized and resolves back to the same address.
+ *
+ * @param {Web3} web3 Ethereum Mainnet web3 instance.
+ * @param {string} address account address.
+ * @return {Promise<string | undefined>} primary ENS name or undefined if not set or not verified.
+ */
+export async function lookupEnsName (web3: Web3, address: string): Promise<string | undefined> {
+    const reverseName = getEnsReverseName(address);
+
+    const resolver = await getEnsResolver(web3, reverseName);
+
+    if (!resolver) return undefined;
+
+    const name: string = await resolver.methods.name(getEnsNamehash(reverseName)).call();
+
+    if (!name) return undefined;
+
+    // Not normalized primary names are not valid, their forward resolution can lead to another name
+    try {
+        if (normalizeEnsName(name) !== name) return undefined;
+    } catch {
+        return undefined;
+    }
+
+    const forwardAddress = await resolveEnsAddress(web3, name);
+
+    if (forwardAddress?.toLowerCase() !== address.toLowerCase()) return undefined;
+
+    return name;
+}
+
+/**
+ * Function for getting a text record of the ENS name.
+ *
+ * @param {Web3} web3 Ethereum Mainnet web3 instance.
+ * @param {string} name ENS name.
+ * @param {string} key text record key (avatar, url, com.twitter, etc.).
+ * @return {Promise<string | undefined>} text record or undefined if not set.
+ */
+export async function getEnsText (web3: Web3, name: string, key: string): Promise<string | undefined> {
+    const normalizedName = normalizeEnsName(name);
+
+    const resolver = await getEnsResolver(web3, normalizedName);
+
+    if (!resolver) return undefined;
+
+    const text: string = await resolver.methods.text(getEnsNamehash(normalizedName), key).call();
+
+    return text || undefined;
+}
+
+/**
+ * Function for getting an avatar URL from the avatar text record.
+ *
+ * NFT avatars (eip155 URIs) are not resolved.
+ *
+ * @param {string} avatar avatar text record.
+ * @param {string} ipfsGateway IPFS gateway URL.
+ * @return {string | undefined} avatar URL.
+ */
+export function getEnsAvatarUrl (avatar: string | undefined, ipfsGateway = "https://ipfs.io/ipfs/") {
+    if (!avatar) return undefined;
+
+    if (/^(https?|data):/i.test(avatar)) return avatar;
+
+    if (/^ipfs:\/\//i.test(avatar)) return ipfsGateway + avatar.replace(/^ipfs:\/\/(ipfs\/)?/i, "");
+
+    return undefined;
+}
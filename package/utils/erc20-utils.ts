@@ -0,0 +1,140 @@
+import BigNumber from "bignumber.js";
+import Web3 from "web3";
+import { TTrackedTransaction } from "./transaction-utils";
+
+/** Web3 contract ABI type. */
+export type TContractAbi = ConstructorParameters<Web3["eth"]["Contract"]>[0];
+
+export type TTokenInfo = {
+    /** Token contract address. */
+    address: string;
+
+    /** Token symbol. */
+    symbol: string;
+
+    /** Token decimals, read from the contract if not specified. */
+    decimals?: number;
+}
+
+/**
+ * Allowance workflow step.
+ *
+ * checking → resetting (zero-reset tokens only) → approving → completed.
+ */
+export type TAllowanceStep = "checking" | "resetting" | "approving" | "completed"
+
+export type TAllowanceProgress = {
+    /** Current workflow step. */
+    step: TAllowanceStep;
+
+    /**
+     * Submitted transaction of the resetting or approving step, these steps are reported
+     * without a transaction before the wallet request and again after the transaction is sent.
+     */
+    transaction?: TTrackedTransaction;
+
+    /** Current allowance in token units. */
+    allowance?: BigNumber;
+}
+
+export type TEnsureAllowanceOptions = {
+    /** Approve the maximum amount instead of the exact amount (default: false). */
+    unlimited?: boolean;
+
+    /**
+     * Reset a non-zero allowance to zero before the approval, required by USDT-style tokens.
+     * Detected by the ZeroResetTokens list and the approval gas estimation revert if not specified.
+     */
+    resetFirst?: boolean;
+
+    /** Number of confirmations of the approval transactions (default: 1). */
+    confirmations?: number;
+
+    /** Workflow progress callback. */
+    onProgress?: (progress: TAllowanceProgress) => void;
+}
+
+/**
+ * Maximum uint256 value, used for unlimited approvals.
+ * @type {string}
+ */
+export const MaxUint256 = new BigNumber(2).pow(256).minus(1).toFixed();
+
+/**
+ * Lowercase addresses of the tokens that revert approvals of a non-zero allowance, by chain ID.
+ * @type {{[p: number]: string[]}}
+ */
+export const ZeroResetTokens: { [key: number]: string[] } = {
+    1: [ "0xdac17f958d2ee523a2206206994597c13d831ec7" ] // USDT
+};
+
+/**
+ * Minimal ERC-20 token ABI.
+ * @type {TContractAbi}
+ */
+export const ERC20Abi: TContractAbi = [
+    {
+        constant: true,
+        inputs: [ { name: "owner", type: "address" } ],
+        name: "balanceOf",
+        outputs: [ { name: "", type: "uint256" } ],
+        stateMutability: "view",
+        type: "function"
+    },
+    {
+        constant: true,
+        inputs: [],
+        name: "decimals",
+        outputs: [ { name: "", type: "uint8" } ],
+        stateMutability: "view",
+        type: "function"
+    },
+    {
+        constant: true,
+        inputs: [],
+        name: "symbol",
+        outputs: [ { name: "", type: "string" } ],
+        stateMutability: "view",
+        type: "function"
+    },
+    {
+        constant: true,
+        inputs: [ { name: "owner", type: "address" }, { name: "spender", type: "address" } ],
+        name: "allowance",
+        outputs: [ { name: "", type: "uint256" } ],
+        stateMutability: "view",
+        type: "function"
+    },
+    {
+        constant: false,
+        inputs: [ { name: "spender", type: "address" }, { name: "amount", type: "uint256" } ],
+        name: "approve",
+        outputs: [ { name: "", type: "bool" } ],
+        stateMutability: "nonpayable",
+        type: "function"
+    }
+];
+
+/**
+ * Function for getting a token balances key (lowercase token address).
+ *
+ * @param {string} address token contract address.
+ * @return {string} token balances key.
+ */
+export function getTokenKey (address: string) {
+    return address.toLowerCase();
+}
+
+/**
+ * Function for checking if the contract call or gas estimation failed because
+ * the execution reverted, not because of the rpc or network error.
+ *
+ * @param {any} error call or gas estimation error.
+ * @return {boolean} true if the execution reverted.
+ */
+export function isExecutionRevertedError (error: any) {
+    // Code 3 is returned by geth-compatible nodes for reverts with data
+    if (error?.code === 3 || error?.data?.code === 3) return true;
+
+    return /revert/i.test(String(error?.data?.message ?? error?.message ?? error ?? ""));
+}
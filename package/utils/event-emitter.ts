@@ -0,0 +1,144 @@
+export type TEventsMap<Events> = { [K in keyof Events]: (...args: any[]) => void };
+
+/** Function for removing a listener added to the event emitter. */
+export type TEventUnsubscribe = () => void;
+
+/**
+ * Type-safe event emitter driven by an events map.
+ *
+ * Listeners are compared by identity, same listener is added only once per event.
+ */
+export default class EventEmitter<Events extends TEventsMap<Events>> {
+    #listeners: { [K in keyof Events]?: Set<Events[K]> } = {};
+
+    /** Wrappers of the once listeners by original listeners, so they can be removed with off. */
+    #onceWrappers: { [K in keyof Events]?: Map<Events[K], Events[K]> } = {};
+
+    readonly #onListenerError?: (error: any) => void;
+
+    /**
+     * Type-safe event emitter driven by an events map.
+     * @param {(error: any) => void} onListenerError listener errors callback.
+     */
+    constructor (onListenerError?: (error: any) => void) {
+        this.#onListenerError = onListenerError;
+    }
+
+    /**
+     * Method for adding a listener to the event.
+     *
+     * @param {keyof Events} event event name.
+     * @param {Events[K]} listener event callback function.
+     * @return {TEventUnsubscribe} function for removing the listener.
+     */
+    public on<K extends keyof Events> (event: K, listener: Events[K]): TEventUnsubscribe {
+        if (!this.#listeners[event]) this.#listeners[event] = new Set();
+
+        this.#listeners[event]?.add(listener);
+
+        return () => this.off(event, listener);
+    }
+
+    /**
+     * Method for adding a listener that is removed after the first call.
+     *
+     * @param {keyof Events} event event name.
+     * @param {Events[K]} listener event callback function.
+     * @return {TEventUnsubscribe} function for removing the listener before the call.
+     */
+    public once<K extends keyof Events> (event: K, listener: Events[K]): TEventUnsubscribe {
+        const wrapper = ((...args: Parameters<Events[K]>) => {
+            this.off(event, listener);
+
+            listener(...args);
+        }) as Events[K];
+
+        if (!this.#onceWrappers[event]) this.#onceWrappers[event] = new Map();
+
+        this.#onceWrappers[event]?.set(listener, wrapper);
+        this.on(event, wrapper);
+
+        return () => this.off(event, listener);
+    }
+
+    /**
+     * Method for removing a specific listener of the event.
+     *
+     * @param {keyof Events} event event name.
+     * @param {Events[K]} listener event callback function.
+     */
+    public off<K extends keyof Events> (event: K, listener: Events[K]) {
+        const wrapper = this.#onceWrappers[event]?.get(listener);
+
+        this.#listeners[event]?.delete(listener);
+
+        if (wrapper) {
+            this.#listeners[event]?.delete(wrapper);
+            this.#onceWrappers[event]?.delete(listener);
+        }
+    }
+
+    /**
+     * Method for removing all listeners of the event, or all listeners if the event name is not set.
+     * @param {keyof Events} event event name.
+     */
+    public offAll (event?: keyof Events) {
+        if (event === undefined) {
+            this.#listeners = {};
+            this.#onceWrappers = {};
+        } else {
+            delete this.#listeners[event];
+            delete this.#onceWrappers[event];
+        }
+    }
+
+    /**
+     * Method for calling all listeners of the event, listener errors do not stop other listeners.
+     *
+     * @param {keyof Events} event event name.
+     * @param {Parameters<Events[K]>} args event arguments.
+     */
+    public emit<K extends keyof Events> (event: K, ...args: Parameters<Events[K]>) {
+        // Copy listeners, so once listeners can remove themselves during the call
+        [ ...this.#listeners[event] ?? [] ].forEach(listener => {
+            try {
+                listener(...args);
+            } catch (err) {
+                this.#onListenerError?.(err);
+            }
+        });
+    }
+
+    /**
+     * Method for waiting for the event with arguments matching the predicate.
+     *
+     * @param {keyof Events} event event name.
+     * @param {(...args: Parameters<Events[K]>) => boolean} predicate arguments filter (default: any arguments).
+     * @param {number} timeout time after which the promise is rejected (ms, default: no timeout).
+     * @return {Promise<Parameters<Events[K]>>} event arguments.
+     */
+    public waitFor<K extends keyof Events> (
+        event: K,
+        predicate?: (...args: Parameters<Events[K]>) => boolean,
+        timeout?: number
+    ): Promise<Parameters<Events[K]>> {
+        return new Promise((resolve, reject) => {
+            let timeoutId: any;
+
+            const unsubscribe = this.on(event, ((...args: Parameters<Events[K]>) => {
+                if (predicate && !predicate(...args)) return;
+
+                unsubscribe();
+                clearTimeout(timeoutId);
+
+                resolve(args);
+            }) as Events[K]);
+
+            if (timeout !== undefined) timeoutId = setTimeout(() => {
+                unsubscribe();
+
+                reject(new Error("Event " + String(event) + " not received in " + timeout + "ms"));
+            }, timeout);
+        });
+    }
+}
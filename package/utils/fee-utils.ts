@@ -0,0 +1,175 @@
+import BigNumber from "bignumber.js";
+import Web3 from "web3";
+
+/** Fee tier, selects the priority fee percentile of the recent blocks. */
+export type TFeeTier = "slow" | "normal" | "fast"
+
+export type TGasFees = {
+    /** EIP-1559 max fee per gas in wei. */
+    maxFeePerGas?: string;
+
+    /** EIP-1559 max priority fee per gas in wei. */
+    maxPriorityFeePerGas?: string;
+
+    /** Legacy gas price in wei, set for chains without EIP-1559 support. */
+    gasPrice?: string;
+}
+
+export type TFeeEstimation = {
+    /** True if the chain supports EIP-1559 fees. */
+    eip1559: boolean;
+
+    /** Base fee per gas of the next block in wei, set only for EIP-1559 chains. */
+    baseFeePerGas?: string;
+
+    /** Transaction fee parameters by tier, can be spread into a transaction request. */
+    tiers: { [key in TFeeTier]: TGasFees };
+}
+
+export type TTransactionCostPreview = {
+    /** Gas limit of the transaction. */
+    gas: string;
+
+    /** Fee tier of the preview. */
+    tier: TFeeTier;
+
+    /** Fee parameters of the tier, can be spread into a transaction request. */
+    fees: TGasFees;
+
+    /** Expected fee in the native currency. */
+    fee: BigNumber;
+
+    /** Maximum fee in the native currency, reserved by the wallet. */
+    maxFee: BigNumber;
+
+    /** Transferred value in the native currency. */
+    value: BigNumber;
+
+    /** Transferred value and maximum fee in the native currency. */
+    total: BigNumber;
+
+    /** Native currency symbol. */
+    symbol: string;
+
+    /** True if the current account balance covers the value and maximum fee. */
+    sufficientBalance: boolean;
+}
+
+/**
+ * Priority fee percentiles of the fee tiers.
+ * @type {{[key in TFeeTier]: number}}
+ */
+export const FeeTierPercentiles: { [key in TFeeTier]: number } = { slow: 10, normal: 50, fast: 90 };
+
+/**
+ * Legacy gas price multipliers of the fee tiers, applied to the node gas price.
+ * @type {{[key in TFeeTier]: number}}
+ */
+export const LegacyFeeTierMultipliers: { [key in TFeeTier]: number } = { slow: 0.9, normal: 1, fast: 1.2 };
+
+/**
+ * Number of recent blocks used for the fee estimation.
+ * @type {number}
+ */
+export const FeeHistoryBlockCount = 10;
+
+const FeeTiers = Object.keys(FeeTierPercentiles) as TFeeTier[];
+
+/**
+ * Function for getting the median of wei values.
+ *
+ * @param {BigNumber[]} values wei values.
+ * @return {BigNumber} median value, zero for an empty list.
+ */
+function getMedian (values: BigNumber[]) {
+    if (values.length === 0) return new BigNumber(0);
+
+    const sorted = [ ...values ].sort((a, b) => a.comparedTo(b) ?? 0);
+    const middle = Math.floor(sorted.length / 2);
+
+    if (sorted.length % 2 === 1) return sorted[middle] as BigNumber;
+
+    return (sorted[middle - 1] as BigNumber).plus(sorted[middle] as BigNumber).idiv(2);
+}
+
+/**
+ * Function for estimating legacy gas price fees.
+ *
+ * @param {Web3} web3 web3 instance connected to the chain.
+ * @return {Promise<TFeeEstimation>} legacy fee estimation.
+ */
+export async function getLegacyFeeEstimation (web3: Web3): Promise<TFeeEstimation> {
+    const gasPrice = new BigNumber(await web3.eth.getGasPrice());
+
+    const tiers = Object.fromEntries(FeeTiers.map(tier => [ tier, {
+        gasPrice: gasPrice.times(LegacyFeeTierMultipliers[tier]).integerValue(BigNumber.ROUND_CEIL).toFixed()
+    } ])) as TFeeEstimation["tiers"];
+
+    return { eip1559: false, tiers };
+}
+
+/**
+ * Function for estimating transaction fees from the recent blocks (eth_feeHistory).
+ *
+ * Priority fee of a tier is the median of the tier percentile rewards, max fee is
+ * twice the next block base fee plus the priority fee. Chains without EIP-1559
+ * support fall back to the legacy gas price.
+ *
+ * @param {Web3} web3 web3 instance connected to the chain.
+ * @return {Promise<TFeeEstimation>} fee estimation.
+ */
+export async function getFeeEstimation (web3: Web3): Promise<TFeeEstimation> {
+    const percentiles = FeeTiers.map(tier => FeeTierPercentiles[tier]);
+
+    const feeHistory = await web3.eth.getFeeHistory(FeeHistoryBlockCount, "latest", percentiles)
+        .catch(() => undefined);
+
+    // Last base fee belongs to the next block
+    const baseFee = feeHistory?.baseFeePerGas?.length
+        ? new BigNumber(feeHistory.baseFeePerGas[feeHistory.baseFeePerGas.length - 1] as string)
+        : undefined;
+
+    if (!feeHistory || !baseFee || baseFee.isNaN() || baseFee.isZero()) return getLegacyFeeEstimation(web3);
+
+    const tiers = Object.fromEntries(FeeTiers.map((tier, index) => {
+        const rewards = (feeHistory.reward ?? [])
+            .map(blockRewards => new BigNumber(blockRewards[index] ?? 0))
+            .filter(reward => !reward.isNaN());
+
+        const priorityFee = getMedian(rewards);
+
+        return [ tier, {
+            maxFeePerGas: baseFee.times(2).plus(priorityFee).toFixed(),
+            maxPriorityFeePerGas: priorityFee.toFixed()
+        } ];
+    })) as TFeeEstimation["tiers"];
+
+    return { eip1559: true, baseFeePerGas: baseFee.toFixed(), tiers };
+}
+
+/**
+ * Function for getting expected and maximum transaction fees in wei.
+ *
+ * @param {string | number} gas transaction gas limit.
+ * @param {TGasFees} fees transaction fee parameters.
+ * @param {string} baseFeePerGas next block base fee for EIP-1559 fees.
+ * @return {{fee: BigNumber, maxFee: BigNumber}} expected and maximum fees in wei.
+ */
+export function getTransactionFees (gas: string | number, fees: TGasFees, baseFeePerGas?: string) {
+    const gasLimit = new BigNumber(gas);
+
+    if (fees.gasPrice !== undefined) {
+        const fee = gasLimit.times(fees.gasPrice);
+
+        return { fee, maxFee: fee };
+    }
+
+    const maxFeePerGas = new BigNumber(fees.maxFeePerGas ?? 0);
+
+    const expectedFeePerGas = BigNumber.min(
+        new BigNumber(baseFeePerGas ?? 0).plus(fees.maxPriorityFeePerGas ?? 0),
+        maxFeePerGas
+    );
+
+    return { fee: gasLimit.times(expectedFeePerGas), maxFee: gasLimit.times(maxFeePerGas) };
+}
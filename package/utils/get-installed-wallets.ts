@@ -1,26 +1,105 @@
 import { MetaMaskInpageProvider } from "@metamask/providers";
+import waitingEthereumPromise from "./waiting-ethereum-promise";
+import { getWalletIcon } from "./wallet-icons";
+
+export type TInstalledWallet = {
+    /** Reverse domain name of the wallet (EIP-6963), used as a wallet key. */
+    rdns: string;
+
+    /** Human-readable wallet name. */
+    name: string;
+
+    /** Wallet icon as data URI, empty for unknown wallets detected with legacy flags. */
+    icon: string;
+
+    /** Unique identifier of the provider instance, missing for legacy wallets. */
+    uuid?: string;
+
+    /** Wallet provider instance. */
+    provider: MetaMaskInpageProvider;
+}
 
 /**
- * Function for getting a list of ethereum wallets available for connection.
+ * Reverse domain names of the wallets detected by legacy flags, also used
+ * to migrate wallet keys cached by previous versions of the controller.
+ * @type {{[p: string]: string}}
+ */
+export const LegacyWalletRdns: { [key: string]: string } = {
+    MetaMask: "io.metamask",
+    CoinbaseWallet: "com.coinbase.wallet"
+};
+
+/**
+ * Function for collecting wallets detected by legacy flags on the global ethereum provider.
  *
  * @param {any} provider global ethereum provider.
- * @return {Map<string, MetaMaskInpageProvider>} list of available wallet providers.
+ * @return {TInstalledWallet[]} list of detected wallets.
  */
-export default function getInstalledWallets<T = any> (
-    provider?: T
-): Map<string, MetaMaskInpageProvider> {
-    const wallets: Map<string, MetaMaskInpageProvider> = new Map();
+function getLegacyWallets (provider: any): TInstalledWallet[] {
+    if (!provider) return [];
+
+    const createWallet = (key: string, walletProvider: any): TInstalledWallet => {
+        const rdns = LegacyWalletRdns[key] ?? key;
+
+        return { rdns, name: key, icon: getWalletIcon(rdns), provider: walletProvider };
+    };
+
+    if (provider.providerMap) return Array.from(provider.providerMap as Map<string, any>)
+        .map(([ key, walletProvider ]) => createWallet(key, walletProvider));
+
+    if (provider.isMetaMask) return [ createWallet("MetaMask", provider) ];
+
+    if (provider.isCoinbaseWallet || provider.isCoinbaseBrowser) return [ createWallet("CoinbaseWallet", provider) ];
+
+    return [];
+}
+
+/**
+ * Function for getting a list of ethereum wallets available for connection.
+ *
+ * Wallets are discovered with EIP-6963 provider announcements, wallets that
+ * do not support EIP-6963 are detected by the legacy flags of the global
+ * ethereum provider.
+ *
+ * @param {number} timeout time to wait for wallets announcements (ms).
+ * @return {Promise<Map<string, TInstalledWallet>>} available wallets by rdns.
+ */
+export default async function getInstalledWallets (timeout = 300): Promise<Map<string, TInstalledWallet>> {
+    const wallets: Map<string, TInstalledWallet> = new Map();
+
+    if (typeof window === "undefined") return wallets;
+
+    const announceListener = (event: Event) => {
+        const { info, provider } = (event as CustomEvent).detail ?? {};
+
+        if (!info?.rdns || !provider) return;
+
+        wallets.set(info.rdns, {
+            rdns: info.rdns,
+            name: info.name ?? info.rdns,
+            icon: info.icon ?? "",
+            uuid: info.uuid,
+            provider
+        });
+    };
+
+    window.addEventListener("eip6963:announceProvider", announceListener);
+    window.dispatchEvent(new Event("eip6963:requestProvider"));
+
+    await new Promise(resolve => setTimeout(resolve, timeout));
+
+    window.removeEventListener("eip6963:announceProvider", announceListener);
+
+    // Wallets injected before the announcements already exist in the window object
+    const legacyProvider = wallets.size > 0 ? (window as any).ethereum : await waitingEthereumPromise();
 
-    if (!provider) return wallets;
+    const announcedProviders = Array.from(wallets.values()).map(wallet => wallet.provider);
 
-    if ((provider as any).providerMap) return (provider as any).providerMap;
-    else {
-        if ((provider as any).isMetaMask)
-            return new Map([ [ "MetaMask", provider as any as MetaMaskInpageProvider ] ]);
+    getLegacyWallets(legacyProvider).forEach(wallet => {
+        if (wallets.has(wallet.rdns) || announcedProviders.includes(wallet.provider)) return;
 
-        if ((provider as any).isCoinbaseWallet || (provider as any).isCoinbaseBrowser)
-            return new Map([ [ "CoinbaseWallet", provider as any as MetaMaskInpageProvider ] ]);
-    }
+        wallets.set(wallet.rdns, wallet);
+    });
 
     return wallets;
 }
@@ -0,0 +1,373 @@
+export type TMockProviderError = {
+    /** EIP-1193 or JSON-RPC error code. */
+    code: number;
+
+    /** Error message. */
+    message?: string;
+
+    /** Additional error data. */
+    data?: unknown;
+}
+
+export type TMockEthereumProviderOptions = {
+    /** Wallet accounts, first account is selected (default: one test account). */
+    accounts?: string[];
+
+    /** Wallet chain ID (default: 1). */
+    chainId?: number;
+
+    /** True if accounts are already authorized for the application (default: false). */
+    authorized?: boolean;
+
+    /** Chains known to the wallet, other chains should be added first (default: wallet chain). */
+    chains?: number[];
+
+    /** Account balances (wei) by chain ID and account address. */
+    balances?: { [key: number]: { [key: string]: string } };
+
+    /** Latest block number (default: 1). */
+    blockNumber?: number;
+
+    /** Response delay of all requests (ms, default: 0). */
+    delay?: number;
+
+    /** Value of the isMetaMask flag (default: false). */
+    isMetaMask?: boolean;
+}
+
+type TRequestArguments = {
+    method: string;
+    params?: unknown[] | object;
+}
+
+type TMockRequestHandler = (params: any[]) => unknown;
+
+/**
+ * Default account of the mock provider.
+ * @type {string}
+ */
+export const MockAccountAddress = "0x8ba1f109551bD432803012645Ac136ddd64DBA72";
+
+/**
+ * Function for creating an EIP-1193 provider error.
+ *
+ * @param {number} code error code.
+ * @param {string} message error message.
+ * @param {unknown} data additional error data.
+ * @return {Error} provider error.
+ */
+export function createProviderError (code: number, message = "Mock provider error " + code, data?: unknown) {
+    return Object.assign(new Error(message), { code, data });
+}
+
+/**
+ * Programmable in-memory EIP-1193 provider for testing the controller without a wallet.
+ *
+ * Responses are computed at request time, so delayed responses reflect the wallet
+ * state of the request moment, like responses of a real wallet.
+ */
+export default class MockEthereumProvider {
+    public readonly isMetaMask: boolean;
+
+    /** Wallet accounts, first account is selected. */
+    public accounts: string[];
+
+    /** Wallet chain ID. */
+    public chainId: number;
+
+    /** True if accounts are authorized for the application. */
+    public authorized: boolean;
+
+    /** Latest block number. */
+    public blockNumber: number;
+
+    /** Log of the received requests. */
+    public readonly requests: { method: string, params: any[] }[] = [];
+
+    readonly #chains: Set<number>;
+
+    readonly #balances: Map<string, string> = new Map();
+
+    readonly #listeners: Map<string, Set<(...args: any[]) => void>> = new Map();
+
+    readonly #handlers: Map<string, TMockRequestHandler> = new Map();
+
+    readonly #rejections: Map<string, TMockProviderError[]> = new Map();
+
+    readonly #delays: Map<string, number> = new Map();
+
+    readonly #subscriptions: Set<string> = new Set();
+
+    #subscriptionId = 0;
+
+    /**
+     * Programmable in-memory EIP-1193 provider for testing the controller without a wallet.
+     * @param {TMockEthereumProviderOptions} options initial wallet state.
+     */
+    constructor (options: TMockEthereumProviderOptions = {}) {
+        this.isMetaMask = options.isMetaMask ?? false;
+        this.accounts = options.accounts ?? [ MockAccountAddress ];
+        this.chainId = options.chainId ?? 1;
+        this.authorized = options.authorized ?? false;
+        this.blockNumber = options.blockNumber ?? 1;
+
+        this.#chains = new Set(options.chains ?? [ this.chainId ]);
+
+        if (options.delay) this.#delays.set("*", options.delay);
+
+        Object.entries(options.balances ?? {}).forEach(([ chainId, balances ]) =>
+            Object.entries(balances).forEach(([ address, balance ]) =>
+                this.setBalance(address, balance, Number(chainId))
+            )
+        );
+    }
+
+    /**
+     * Method for sending a request to the mock wallet.
+     *
+     * @param {TRequestArguments} args request method and params.
+     * @return {Promise<T>} request result.
+     */
+    public async request<T = any> ({ method, params }: TRequestArguments): Promise<T> {
+        const requestParams = Array.isArray(params) ? params : params ? [ params ] : [];
+
+        this.requests.push({ method, params: requestParams });
+
+        const delay = this.#delays.get(method) ?? this.#delays.get("*") ?? 0;
+
+        let result: unknown, error: Error | undefined;
+
+        try {
+            const rejection = this.#rejections.get(method)?.shift();
+
+            if (rejection) throw createProviderError(rejection.code, rejection.message, rejection.data);
+
+            result = this.handleRequest(method, requestParams);
+        } catch (err: any) {
+            error = err;
+        }
+
+        if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay));
+
+        if (error) throw error;
+
+        return result as T;
+    }
+
+    /**
+     * Method for adding an event listener.
+     *
+     * @param {string} event event name.
+     * @param {(...args: any[]) => void} listener event callback function.
+     * @return {MockEthereumProvider} provider instance.
+     */
+    public on (event: string, listener: (...args: any[]) => void) {
+        if (!this.#listeners.has(event)) this.#listeners.set(event, new Set());
+
+        this.#listeners.get(event)?.add(listener);
+
+        return this;
+    }
+
+    /**
+     * Method for removing an event listener.
+     *
+     * @param {string} event event name.
+     * @param {(...args: any[]) => void} listener event callback function.
+     * @return {MockEthereumProvider} provider instance.
+     */
+    public removeListener (event: string, listener: (...args: any[]) => void) {
+        this.#listeners.get(event)?.delete(listener);
+
+        return this;
+    }
+
+    /**
+     * Method for removing an event listener.
+     *
+     * @param {string} event event name.
+     * @param {(...args: any[]) => void} listener event callback function.
+     * @return {MockEthereumProvider} provider instance.
+     */
+    public off (event: string, listener: (...args: any[]) => void) {
+        return this.removeListener(event, listener);
+    }
+
+    /**
+     * Method for getting the number of event listeners.
+     *
+     * @param {string} event event name.
+     * @return {number} listeners count.
+     */
+    public listenerCount (event: string) {
+        return this.#listeners.get(event)?.size ?? 0;
+    }
+
+    /**
+     * Method for calling all listeners of the event.
+     *
+     * @param {string} event event name.
+     * @param {any} args event arguments.
+     */
+    public emit (event: string, ...args: any[]) {
+        [ ...this.#listeners.get(event) ?? [] ].forEach(listener => listener(...args));
+    }
+
+    /**
+     * Method for changing wallet accounts, accountsChanged is emitted only if accounts are authorized.
+     * @param {string[]} accounts new accounts, first account is selected.
+     */
+    public setAccounts (accounts: string[]) {
+        this.accounts = accounts;
+
+        if (this.authorized) this.emit("accountsChanged", accounts);
+    }
+
+    /**
+     * Method for changing wallet chain, emits chainChanged.
+     * @param {number} chainId new chain ID.
+     */
+    public setChainId (chainId: number) {
+        this.chainId = chainId;
+        this.#chains.add(chainId);
+
+        this.emit("chainChanged", "0x" + chainId.toString(16));
+    }
+
+    /**
+     * Method for changing the account balance.
+     *
+     * @param {string} address account address.
+     * @param {string} balance balance in wei.
+     * @param {number} chainId balance chain ID (default: wallet chain).
+     */
+    public setBalance (address: string, balance: string, chainId = this.chainId) {
+        this.#balances.set(chainId + ":" + address.toLowerCase(), balance);
+    }
+
+    /**
+     * Method for increasing the block number, newHeads subscribers are notified.
+     * @return {number} new block number.
+     */
+    public mineBlock () {
+        this.blockNumber++;
+
+        this.#subscriptions.forEach(subscription => this.emit("message", {
+            type: "eth_subscription",
+            data: { subscription, result: { number: "0x" + this.blockNumber.toString(16) } }
+        }));
+
+        return this.blockNumber;
+    }
+
+    /**
+     * Method for simulating wallet disconnection, emits disconnect with the 4900 error.
+     */
+    public disconnect () {
+        this.authorized = false;
+
+        this.emit("disconnect", createProviderError(4900, "Wallet disconnected"));
+    }
+
+    /**
+     * Method for rejecting the next request of the method.
+     *
+     * @param {string} method request method.
+     * @param {number | TMockProviderError} error error code or error (default: user rejection).
+     */
+    public rejectNext (method: string, error: number | TMockProviderError = 4001) {
+        const rejection = typeof error === "number" ? { code: error } : error;
+
+        this.#rejections.set(method, [ ...this.#rejections.get(method) ?? [], rejection ]);
+    }
+
+    /**
+     * Method for setting response delay.
+     *
+     * @param {number} delay response delay (ms).
+     * @param {string} method request method (default: all methods).
+     */
+    public setDelay (delay: number, method = "*") {
+        this.#delays.set(method, delay);
+    }
+
+    /**
+     * Method for setting a custom request handler, overrides built-in handlers.
+     *
+     * @param {string} method request method.
+     * @param {TMockRequestHandler} handler request handler, thrown errors reject the request.
+     */
+    public setHandler (method: string, handler: TMockRequestHandler) {
+        this.#handlers.set(method, handler);
+    }
+
+    /**
+     * Method for computing a request result.
+     *
+     * @param {string} method request method.
+     * @param {any[]} params request params.
+     * @return {unknown} request result.
+     * @private
+     */
+    private handleRequest (method: string, params: any[]): unknown {
+        const handler = this.#handlers.get(method);
+
+        if (handler) return handler(params);
+
+        switch (method) {
+            case "eth_accounts":
+                return this.authorized ? [ ...this.accounts ] : [];
+
+            case "eth_requestAccounts":
+                this.authorized = true;
+
+                return [ ...this.accounts ];
+
+            case "wallet_requestPermissions":
+                this.authorized = true;
+
+                return [ { parentCapability: "eth_accounts" } ];
+
+            case "eth_chainId":
+                return "0x" + this.chainId.toString(16);
+
+            case "net_version":
+                return String(this.chainId);
+
+            case "eth_blockNumber":
+                return "0x" + this.blockNumber.toString(16);
+
+            case "eth_getBalance":
+                return "0x" + BigInt(this.#balances.get(this.chainId + ":" + String(params[0]).toLowerCase()) ?? 0)
+                    .toString(16);
+
+            case "eth_subscribe":
+                if (params[0] !== "newHeads") throw createProviderError(-32602, "Unsupported subscription");
+
+                this.#subscriptions.add("0x" + (++this.#subscriptionId).toString(16));
+
+                return "0x" + this.#subscriptionId.toString(16);
+
+            case "eth_unsubscribe":
+                return this.#subscriptions.delete(params[0]);
+
+            case "wallet_switchEthereumChain": {
+                const chainId = Number.parseInt(params[0]?.chainId, 16);
+
+                if (!this.#chains.has(chainId)) throw createProviderError(4902, "Unrecognized chain ID");
+
+                if (chainId !== this.chainId) this.setChainId(chainId);
+
+                return null;
+            }
+
+            case "wallet_addEthereumChain":
+                this.#chains.add(Number.parseInt(params[0]?.chainId, 16));
+
+                return null;
+
+            default:
+                throw createProviderError(4200, "Method " + method + " is not supported");
+        }
+    }
+}
@@ -0,0 +1,13 @@
+import modalWindowController from "@knownout/modal-window-controller";
+import { TWalletPicker } from "./wallet-picker";
+
+/**
+ * Function for creating a wallet picker that opens a modal-window-controller modal,
+ * the modal reads the wallet list from the controller itself.
+ *
+ * @param {string} modalKey wallet connection modal key.
+ * @return {TWalletPicker} wallet picker.
+ */
+export default function createModalWalletPicker (modalKey: string): TWalletPicker {
+    return () => modalWindowController.openModal(modalKey);
+}
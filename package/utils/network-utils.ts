@@ -1,19 +1,253 @@
+import { InvalidParamsError, toEvmWalletError, UnrecognizedChainError } from "./wallet-errors";
+
 export type TNetworkInfo = {
     /** Chain core currency symbol. */
     currency: string;
 
-    /** Chain rpc URL. */
-    rpc: string;
+    /** Chain rpc URL or list of URLs, requests are retried with the next URL on failure. */
+    rpc: string | string[];
+
+    /** Chain name, displayed by the wallet when adding a network. */
+    name?: string;
+
+    /** Chain core currency name (default: currency symbol). */
+    currencyName?: string;
+
+    /** Chain core currency decimals (default: 18). */
+    decimals?: number;
+
+    /** Chain block explorer URLs. */
+    explorers?: string[];
+
+    /** Chain icon URL. */
+    icon?: string;
+
+    /** Block number polling interval for the chain (ms), overrides controller option. */
+    pollingInterval?: number;
+}
+
+/** Values of the rpc URL variables by name, e.g. { INFURA_API_KEY: "..." }. */
+export type TRpcVariables = { [key: string]: string };
+
+/**
+ * EIP-3085 wallet_addEthereumChain request parameters.
+ */
+export type TAddEthereumChainParameter = {
+    chainId: string;
+    chainName: string;
+    nativeCurrency: {
+        name: string;
+        symbol: string;
+        decimals: number;
+    };
+    rpcUrls: string[];
+    blockExplorerUrls?: string[];
+    iconUrls?: string[];
 }
 
 /**
  * Function to get a specific field from the list of available networks.
  * @param {keyof TNetworkInfo} key required field name.
  * @param {{[p: number]: TNetworkInfo}} networksList available networks list.
- * @return {any}
+ * @return {{[p: string]: TNetworkInfo[K]}}
  */
-export function getNetworksValue (key: keyof TNetworkInfo, networksList: { [key: number]: TNetworkInfo }) {
+export function getNetworksValue<K extends keyof TNetworkInfo> (
+    key: K,
+    networksList: { [key: number]: TNetworkInfo }
+): { [key: string]: TNetworkInfo[K] } {
     return Object.fromEntries(Object.entries(networksList).map(([ objectKey, value ]) =>
         [ objectKey, value[key] ]
     ));
 }
+
+/**
+ * Function for getting a list of the network rpc URLs.
+ *
+ * @param {TNetworkInfo} networkInfo network info from the networks list.
+ * @return {string[]} rpc URLs.
+ */
+export function getRpcUrls (networkInfo: TNetworkInfo): string[] {
+    return Array.isArray(networkInfo.rpc) ? networkInfo.rpc : [ networkInfo.rpc ];
+}
+
+/**
+ * Function for getting the main rpc URL of each network from the list of available networks.
+ *
+ * @param {{[p: number]: TNetworkInfo}} networksList available networks list.
+ * @return {{[p: string]: string}} first rpc URL by chain ID.
+ */
+export function getNetworksRpcMap (networksList: { [key: number]: TNetworkInfo }): { [key: string]: string } {
+    return Object.fromEntries(Object.entries(networksList)
+        .map(([ chainId, networkInfo ]) => [ chainId, getRpcUrls(networkInfo)[0] ])
+        .filter(([ , rpcUrl ]) => Boolean(rpcUrl))
+    );
+}
+
+/**
+ * Function for checking if the rpc URL can be shared with the wallet: https URL of a public host
+ * without credentials, api key query parameters or key-like path segments (e.g. Infura project ID).
+ *
+ * @param {string} url rpc URL.
+ * @return {boolean} true if rpc URL is public.
+ */
+export function isPublicRpcUrl (url: string): boolean {
+    let parsedUrl: URL;
+
+    try {
+        parsedUrl = new URL(url);
+    } catch {
+        return false;
+    }
+
+    if (parsedUrl.protocol !== "https:" || parsedUrl.username || parsedUrl.password) return false;
+
+    if (/^(localhost|127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.|\[::1])/.test(parsedUrl.hostname)) return false;
+
+    if ([ ...parsedUrl.searchParams.keys() ].some(key => /key|token|secret|auth/i.test(key))) return false;
+
+    return !parsedUrl.pathname.split("/").some(segment => segment.length >= 20
+        && /^[\w-]+$/.test(segment) && /\d/.test(segment) && /[a-z]/i.test(segment));
+}
+
+/**
+ * Function for building wallet_addEthereumChain parameters from the network info,
+ * only public rpc URLs are passed to the wallet.
+ *
+ * @param {number} chainId network ID.
+ * @param {TNetworkInfo} networkInfo network info from the networks list.
+ * @return {TAddEthereumChainParameter} request parameters.
+ * @throws {InvalidParamsError} network has no public rpc URLs.
+ */
+export function getAddEthereumChainParameter (chainId: number, networkInfo: TNetworkInfo): TAddEthereumChainParameter {
+    const rpcUrls = getRpcUrls(networkInfo).filter(isPublicRpcUrl);
+
+    if (rpcUrls.length === 0) throw new InvalidParamsError("Network " + chainId + " has no public rpc URLs");
+
+    return {
+        chainId: "0x" + chainId.toString(16),
+        chainName: networkInfo.name ?? networkInfo.currency,
+        nativeCurrency: {
+            name: networkInfo.currencyName ?? networkInfo.currency,
+            symbol: networkInfo.currency,
+            decimals: networkInfo.decimals ?? 18
+        },
+        rpcUrls,
+        blockExplorerUrls: networkInfo.explorers,
+        iconUrls: networkInfo.icon ? [ networkInfo.icon ] : undefined
+    };
+}
+
+/**
+ * Function for checking if the wallet rejected a network switch because it does not know the chain.
+ *
+ * MetaMask mobile wraps the original error, so the nested error code is checked too.
+ *
+ * @param {any} error network switch request error.
+ * @return {boolean} true if the chain should be added to the wallet.
+ */
+export function isUnrecognizedChainError (error: any): boolean {
+    return toEvmWalletError(error) instanceof UnrecognizedChainError;
+}
+
+/**
+ * Function for substituting variables of the rpc URL (${INFURA_API_KEY}, etc.).
+ *
+ * @param {string} url rpc URL.
+ * @param {TRpcVariables} variables variable values by name.
+ * @return {string | undefined} rpc URL or undefined if a variable value not set.
+ */
+export function substituteRpcVariables (url: string, variables: TRpcVariables = {}): string | undefined {
+    let missingVariable = false;
+
+    const substitutedUrl = url.replace(/\$\{([A-Z0-9_]+)}/gi, (_, name: string) => {
+        const value = variables[name];
+
+        if (value === undefined) missingVariable = true;
+
+        return value ?? "";
+    });
+
+    return missingVariable ? undefined : substitutedUrl;
+}
+
+/**
+ * Function for substituting rpc URL variables of the networks list, rpc URLs
+ * with missing variables are removed.
+ *
+ * @param {{[p: number]: TNetworkInfo}} networksList networks list.
+ * @param {TRpcVariables} variables rpc URL variable values by name.
+ * @return {{[p: number]: TNetworkInfo}} networks list with substituted rpc URLs.
+ */
+export function substituteNetworksRpcVariables (
+    networksList: { [key: number]: TNetworkInfo },
+    variables: TRpcVariables = {}
+): { [key: number]: TNetworkInfo } {
+    return Object.fromEntries(Object.entries<TNetworkInfo>(networksList).map(([ chainId, networkInfo ]) => {
+        const rpc = getRpcUrls(networkInfo)
+            .map(url => substituteRpcVariables(url, variables))
+            .filter((url): url is string => url !== undefined);
+
+        return [ chainId, { ...networkInfo, rpc } ];
+    }));
+}
+
+/**
+ * Function for checking if the rpc URL is a well-formed http or https URL.
+ *
+ * @param {string} url rpc URL.
+ * @return {boolean} true if rpc URL is valid.
+ */
+export function isValidRpcUrl (url: string): boolean {
+    try {
+        const { protocol } = new URL(url);
+
+        return protocol === "http:" || protocol === "https:";
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Function for checking if the value is a valid chain ID.
+ *
+ * @param {unknown} chainId chain ID.
+ * @return {boolean} true if chain ID is a positive safe integer.
+ */
+export function isValidChainId (chainId: unknown): chainId is number {
+    return typeof chainId === "number" && Number.isSafeInteger(chainId) && chainId > 0;
+}
+
+/**
+ * Function for validating the network info, rpc URL variables are substituted,
+ * rpc URLs with missing variables and malformed rpc URLs are removed.
+ *
+ * @param {number} chainId network ID.
+ * @param {TNetworkInfo} networkInfo network info.
+ * @param {TRpcVariables} variables rpc URL variable values by name.
+ * @return {TNetworkInfo} validated network info.
+ * @throws {InvalidParamsError} invalid chain ID, currency, decimals or no valid rpc URLs.
+ */
+export function validateNetworkInfo (
+    chainId: number,
+    networkInfo: TNetworkInfo,
+    variables?: TRpcVariables
+): TNetworkInfo {
+    if (!isValidChainId(chainId)) throw new InvalidParamsError("Invalid chain ID: " + chainId);
+
+    if (typeof networkInfo?.currency !== "string" || !networkInfo.currency.trim())
+        throw new InvalidParamsError("Network " + chainId + " currency symbol not set");
+
+    const { decimals } = networkInfo;
+
+    if (decimals !== undefined && (!Number.isInteger(decimals) || decimals < 0 || decimals > 36))
+        throw new InvalidParamsError("Network " + chainId + " has invalid decimals: " + decimals);
+
+    const rpc = (Array.isArray(networkInfo.rpc) ? networkInfo.rpc : [ networkInfo.rpc ])
+        .filter((url): url is string => typeof url === "string")
+        .map(url => substituteRpcVariables(url.trim(), variables))
+        .filter((url): url is string => url !== undefined && isValidRpcUrl(url));
+
+    if (rpc.length === 0) throw new InvalidParamsError("Network " + chainId + " has no valid rpc URLs");
+
+    return { ...networkInfo, rpc };
+}
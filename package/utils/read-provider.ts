@@ -0,0 +1,244 @@
+export type TRpcEndpointStatus = {
+    /** Endpoint URL. */
+    url: string;
+
+    /** Average response time (ms), undefined until the first response. */
+    latency?: number;
+
+    /** Number of consecutive failed requests. */
+    failures: number;
+
+    /** True if endpoint chain ID matches the network chain ID. */
+    chainIdVerified: boolean;
+
+    /** False if endpoint chain ID differs from the network chain ID, such endpoint is never used. */
+    chainIdValid: boolean;
+
+    /** Timestamp until which endpoint is skipped after a failure (ms). */
+    disabledUntil: number;
+
+    /** Last endpoint error message. */
+    lastError?: string;
+}
+
+export type TReadProviderOptions = {
+    /** Request timeout (ms, default: 5000). */
+    timeout?: number;
+
+    /** Time during which a failed endpoint is skipped, multiplied by the failures count (ms, default: 10000). */
+    cooldown?: number;
+}
+
+type TRequestArguments = {
+    method: string;
+    params?: unknown[] | object;
+}
+
+/**
+ * JSON-RPC error returned by an endpoint, not an endpoint failure.
+ */
+export class RpcResponseError extends Error {
+    public readonly code: number;
+
+    public readonly data?: unknown;
+
+    constructor (error: { code: number, message: string, data?: unknown }) {
+        super(error.message);
+
+        this.name = "RpcResponseError";
+        this.code = error.code;
+        this.data = error.data;
+    }
+}
+
+/**
+ * Read-only EIP-1193 provider over several RPC endpoints of one network.
+ *
+ * Endpoints are sorted by health and latency, chain ID of each endpoint
+ * is verified before the first request, failed or timed out requests
+ * are retried with the next endpoint.
+ */
+export default class ReadProvider {
+    public readonly chainId: number;
+
+    readonly #endpoints: TRpcEndpointStatus[];
+
+    readonly #timeout: number;
+
+    readonly #cooldown: number;
+
+    #requestId = 0;
+
+    /**
+     * Read-only EIP-1193 provider over several RPC endpoints of one network.
+     *
+     * @param {number} chainId network chain ID.
+     * @param {string[]} urls network RPC endpoints.
+     * @param {TReadProviderOptions} options provider options.
+     */
+    constructor (chainId: number, urls: string[], options: TReadProviderOptions = {}) {
+        this.chainId = chainId;
+        this.#timeout = options.timeout ?? 5000;
+        this.#cooldown = options.cooldown ?? 10000;
+
+        this.#endpoints = urls.map(url => ({
+            url,
+            failures: 0,
+            chainIdVerified: false,
+            chainIdValid: true,
+            disabledUntil: 0
+        }));
+    }
+
+    /**
+     * Method for getting endpoints status.
+     * @return {TRpcEndpointStatus[]} endpoints status copy.
+     */
+    public get endpoints (): TRpcEndpointStatus[] {
+        return this.#endpoints.map(endpoint => ({ ...endpoint }));
+    }
+
+    /**
+     * Method for sending a JSON-RPC request to the healthiest available endpoint.
+     *
+     * @param {TRequestArguments} args request method and params.
+     * @return {Promise<any>} request result.
+     */
+    public async request ({ method, params }: TRequestArguments): Promise<any> {
+        const endpoints = this.getSortedEndpoints();
+
+        if (endpoints.length === 0) throw new Error("No valid RPC endpoints for chain " + this.chainId);
+
+        let lastError: any;
+
+        for (const endpoint of endpoints) {
+            try {
+                if (!endpoint.chainIdVerified) await this.verifyChainId(endpoint);
+
+                if (!endpoint.chainIdValid) continue;
+
+                return await this.sendToEndpoint(endpoint, method, params);
+            } catch (err) {
+                if (err instanceof RpcResponseError) throw err;
+
+                lastError = err;
+            }
+        }
+
+        throw lastError ?? new Error("No valid RPC endpoints for chain " + this.chainId);
+    }
+
+    /**
+     * Legacy web3 provider method.
+     *
+     * @param {{id: number, method: string, params: any[]}} payload JSON-RPC payload.
+     * @param {(error: Error | null, result?: any) => void} callback response callback.
+     */
+    public sendAsync (
+        payload: { id?: number | string, jsonrpc?: string, method: string, params?: any[] },
+        callback: (error: Error | null, result?: any) => void
+    ) {
+        this.request(payload)
+            .then(result => callback(null, { id: payload.id, jsonrpc: "2.0", result }))
+            .catch(err => callback(err));
+    }
+
+    /**
+     * Method for checking all endpoints, verifies chain ID and updates latency.
+     * @return {Promise<TRpcEndpointStatus[]>} endpoints status.
+     */
+    public async checkHealth (): Promise<TRpcEndpointStatus[]> {
+        await Promise.all(this.#endpoints.map(endpoint => this.verifyChainId(endpoint).catch(() => undefined)));
+
+        return this.endpoints;
+    }
+
+    /**
+     * Method for getting valid endpoints sorted by availability and latency.
+     * @return {TRpcEndpointStatus[]} sorted endpoints.
+     * @private
+     */
+    private getSortedEndpoints () {
+        const now = Date.now();
+
+        return this.#endpoints
+            .filter(endpoint => endpoint.chainIdValid)
+            .sort((a, b) => {
+                const aDisabled = a.disabledUntil > now, bDisabled = b.disabledUntil > now;
+
+                if (aDisabled !== bDisabled) return aDisabled ? 1 : -1;
+
+                if (aDisabled && bDisabled) return a.disabledUntil - b.disabledUntil;
+
+                return (a.latency ?? this.#timeout) - (b.latency ?? this.#timeout);
+            });
+    }
+
+    /**
+     * Method for verifying endpoint chain ID.
+     *
+     * @param {TRpcEndpointStatus} endpoint endpoint status.
+     * @return {Promise<void>}
+     * @private
+     */
+    private async verifyChainId (endpoint: TRpcEndpointStatus) {
+        const chainId = Number.parseInt(await this.sendToEndpoint(endpoint, "eth_chainId"), 16);
+
+        endpoint.chainIdVerified = true;
+        endpoint.chainIdValid = chainId === this.chainId;
+
+        if (!endpoint.chainIdValid) endpoint.lastError = "Chain ID mismatch: " + chainId;
+    }
+
+    /**
+     * Method for sending a JSON-RPC request to the endpoint and updating its status.
+     *
+     * @param {TRpcEndpointStatus} endpoint endpoint status.
+     * @param {string} method request method.
+     * @param {unknown[] | object} params request params.
+     * @return {Promise<any>} request result.
+     * @private
+     */
+    private async sendToEndpoint (endpoint: TRpcEndpointStatus, method: string, params?: unknown[] | object) {
+        const abortController = new AbortController();
+        const timeout = setTimeout(() => abortController.abort(), this.#timeout);
+
+        const requestStart = Date.now();
+
+        try {
+            const response = await fetch(endpoint.url, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ jsonrpc: "2.0", id: ++this.#requestId, method, params: params ?? [] }),
+                signal: abortController.signal
+            });
+
+            if (!response.ok) throw new Error("RPC endpoint responded with status " + response.status);
+
+            const body = await response.json();
+
+            const responseLatency = Date.now() - requestStart;
+
+            endpoint.latency = endpoint.latency === undefined
+                ? responseLatency
+                : Math.round(endpoint.latency * 0.7 + responseLatency * 0.3);
+
+            endpoint.failures = 0;
+            endpoint.disabledUntil = 0;
+
+            if (body.error) throw new RpcResponseError(body.error);
+
+            return body.result;
+        } catch (err: any) {
+            if (err instanceof RpcResponseError) throw err;
+
+            endpoint.failures++;
+            endpoint.disabledUntil = Date.now() + this.#cooldown * endpoint.failures;
+            endpoint.lastError = abortController.signal.aborted ? "Request timed out" : String(err?.message ?? err);
+
+            throw err;
+        } finally {
+            clearTimeout(timeout);
+        }
+    }
+}
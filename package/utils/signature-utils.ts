@@ -0,0 +1,356 @@
+import Web3 from "web3";
+import { TContractAbi } from "./erc20-utils";
+
+export type TTypedDataField = {
+    name: string;
+    type: string;
+}
+
+export type TTypedDataDomain = {
+    name?: string;
+    version?: string;
+    chainId?: number;
+    verifyingContract?: string;
+    salt?: string;
+}
+
+export type TTypedDataTypes = { [key: string]: readonly TTypedDataField[] };
+
+/**
+ * Value type of the EIP-712 field, structs are resolved with the types object.
+ */
+export type TTypedDataValue<Types extends TTypedDataTypes, Type extends string> =
+    Type extends `${ infer ItemType }[${ string }]`
+        ? TTypedDataValue<Types, ItemType>[]
+        : Type extends keyof Types
+            ? TTypedDataMessage<Types, Type>
+            : Type extends "bool"
+                ? boolean
+                : Type extends `uint${ string }` | `int${ string }`
+                    ? string | number
+                    : string;
+
+/**
+ * EIP-712 message type derived from the types object declared "as const".
+ */
+export type TTypedDataMessage<Types extends TTypedDataTypes, PrimaryType extends keyof Types> = {
+    [Field in Types[PrimaryType][number] as Field["name"]]: TTypedDataValue<Types, Field["type"]>
+};
+
+/**
+ * EIP-712 typed data.
+ */
+export type TTypedData<Types extends TTypedDataTypes, PrimaryType extends keyof Types & string> = {
+    domain: TTypedDataDomain;
+    types: Types;
+    primaryType: PrimaryType;
+    message: TTypedDataMessage<Types, PrimaryType>;
+}
+
+export type TSiweMessageParams = {
+    /** RFC 3986 authority requesting the signing. */
+    domain: string;
+
+    /** Signing account address. */
+    address: string;
+
+    /** Human-readable assertion that the user will sign. */
+    statement?: string;
+
+    /** RFC 3986 URI referring to the resource that is the subject of the signing. */
+    uri: string;
+
+    /** Message version (default: 1). */
+    version?: string;
+
+    /** ID of the chain the session is bound to. */
+    chainId: number;
+
+    /** Randomized token, usually received from the backend to prevent replay attacks. */
+    nonce: string;
+
+    /** ISO 8601 datetime of the message creation. */
+    issuedAt: string;
+
+    /** ISO 8601 datetime after which the message is no longer valid. */
+    expirationTime?: string;
+
+    /** ISO 8601 datetime before which the message is not yet valid. */
+    notBefore?: string;
+
+    /** System-specific identifier of the sign-in request. */
+    requestId?: string;
+
+    /** List of resources the user wishes to have resolved as part of authentication. */
+    resources?: string[];
+}
+
+export type TSiweVerificationResult = {
+    /** True only if signature belongs to the message address and message is not expired. */
+    valid: boolean;
+
+    /** Parsed message parameters. */
+    params?: TSiweMessageParams;
+
+    /** Address recovered from the signature, not set for contract account signatures. */
+    recoveredAddress?: string;
+
+    /** Reason of the verification failure. */
+    error?: string;
+}
+
+const EIP712DomainFields: { [key in keyof TTypedDataDomain]-?: string } = {
+    name: "string",
+    version: "string",
+    chainId: "uint256",
+    verifyingContract: "address",
+    salt: "bytes32"
+};
+
+/**
+ * Value returned by EIP-1271 isValidSignature for valid signatures.
+ * @type {string}
+ */
+export const Erc1271MagicValue = "0x1626ba7e";
+
+/**
+ * Minimal EIP-1271 contract account ABI.
+ * @type {TContractAbi}
+ */
+export const Erc1271Abi: TContractAbi = [
+    {
+        constant: true,
+        inputs: [ { name: "hash", type: "bytes32" }, { name: "signature", type: "bytes" } ],
+        name: "isValidSignature",
+        outputs: [ { name: "", type: "bytes4" } ],
+        stateMutability: "view",
+        type: "function"
+    }
+];
+
+const SiweHeaderSuffix = " wants you to sign in with your Ethereum account:";
+
+const SiweFieldNames: [ keyof TSiweMessageParams, string ][] = [
+    [ "uri", "URI" ],
+    [ "version", "Version" ],
+    [ "chainId", "Chain ID" ],
+    [ "nonce", "Nonce" ],
+    [ "issuedAt", "Issued At" ],
+    [ "expirationTime", "Expiration Time" ],
+    [ "notBefore", "Not Before" ],
+    [ "requestId", "Request ID" ]
+];
+
+/**
+ * Function for preparing typed data for the eth_signTypedData_v4 request, EIP712Domain
+ * type is derived from the domain fields if not specified.
+ *
+ * @param {TTypedData} typedData EIP-712 typed data.
+ * @return {string} serialized typed data.
+ */
+export function serializeTypedData<Types extends TTypedDataTypes, PrimaryType extends keyof Types & string> (
+    typedData: TTypedData<Types, PrimaryType>
+): string {
+    const domainFields = (Object.keys(EIP712DomainFields) as (keyof TTypedDataDomain)[])
+        .filter(key => typedData.domain[key] !== undefined)
+        .map(key => ({ name: key, type: EIP712DomainFields[key] }));
+
+    return JSON.stringify({
+        ...typedData,
+        types: { EIP712Domain: domainFields, ...typedData.types }
+    });
+}
+
+/**
+ * Function for generating a random EIP-4361 nonce.
+ *
+ * @param {number} length nonce length (at least 8 characters).
+ * @return {string} alphanumeric nonce.
+ */
+export function generateSiweNonce (length = 16): string {
+    const characters = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+
+    const randomValues = new Uint32Array(Math.max(length, 8));
+    crypto.getRandomValues(randomValues);
+
+    return Array.from(randomValues).map(value => characters[value % characters.length]).join("");
+}
+
+/**
+ * Function for building EIP-4361 (Sign-In with Ethereum) message.
+ *
+ * @param {TSiweMessageParams} params message parameters.
+ * @return {string} message to sign.
+ */
+export function buildSiweMessage (params: TSiweMessageParams): string {
+    const lines = [
+        params.domain + SiweHeaderSuffix,
+        Web3.utils.toChecksumAddress(params.address),
+        ""
+    ];
+
+    if (params.statement) lines.push(params.statement);
+
+    lines.push("");
+
+    const fieldValues: TSiweMessageParams = { ...params, version: params.version ?? "1" };
+
+    SiweFieldNames.forEach(([ key, name ]) => {
+        const value = fieldValues[key];
+
+        if (value !== undefined) lines.push(name + ": " + value);
+    });
+
+    if (params.resources && params.resources.length > 0) {
+        lines.push("Resources:");
+        params.resources.forEach(resource => lines.push("- " + resource));
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * Function for parsing EIP-4361 (Sign-In with Ethereum) message.
+ *
+ * @param {string} message signed message.
+ * @return {TSiweMessageParams | undefined} message parameters or undefined if message is malformed.
+ */
+export function parseSiweMessage (message: string): TSiweMessageParams | undefined {
+    const lines = message.split("\n");
+
+    const [ header, address ] = lines;
+
+    if (!header?.endsWith(SiweHeaderSuffix) || !address || !Web3.utils.isAddress(address)) return undefined;
+
+    const fields: { [key: string]: string } = {};
+    const resources: string[] = [];
+    const statementLines: string[] = [];
+
+    lines.slice(2).forEach(line => {
+        const field = SiweFieldNames.find(([ , name ]) => line.startsWith(name + ": "));
+
+        if (field) fields[field[0]] = line.slice(field[1].length + 2);
+        else if (line.startsWith("- ")) resources.push(line.slice(2));
+        else if (line && line !== "Resources:" && !fields.uri) statementLines.push(line);
+    });
+
+    if (!fields.uri || !fields.chainId || !fields.nonce || !fields.issuedAt) return undefined;
+
+    return {
+        domain: header.slice(0, -SiweHeaderSuffix.length),
+        address,
+        statement: statementLines.length > 0 ? statementLines.join("\n") : undefined,
+        uri: fields.uri,
+        version: fields.version,
+        chainId: Number(fields.chainId),
+        nonce: fields.nonce,
+        issuedAt: fields.issuedAt,
+        expirationTime: fields.expirationTime,
+        notBefore: fields.notBefore,
+        requestId: fields.requestId,
+        resources: resources.length > 0 ? resources : undefined
+    };
+}
+
+/**
+ * Function for checking the EIP-4361 message validity period.
+ *
+ * @param {TSiweMessageParams} params message parameters.
+ * @param {Date} time verification time.
+ * @return {string | undefined} reason of the verification failure or undefined if message is valid.
+ */
+function getSiweTimeError (params: TSiweMessageParams, time: Date) {
+    if (params.expirationTime && new Date(params.expirationTime) <= time) return "Message expired";
+
+    if (params.notBefore && new Date(params.notBefore) > time) return "Message not yet valid";
+
+    return undefined;
+}
+
+/**
+ * Function for verifying EIP-4361 (Sign-In with Ethereum) message signature locally,
+ * only signatures of externally owned accounts are verified.
+ *
+ * @param {string} message signed message.
+ * @param {string} signature personal_sign signature.
+ * @param {Date} time verification time (default: now).
+ * @return {TSiweVerificationResult} verification result.
+ */
+export function verifySiweMessage (message: string, signature: string, time = new Date()): TSiweVerificationResult {
+    const params = parseSiweMessage(message);
+
+    if (!params) return { valid: false, error: "Malformed message" };
+
+    let recoveredAddress: string;
+
+    try {
+        recoveredAddress = new Web3().eth.accounts.recover(message, signature);
+    } catch {
+        return { valid: false, params, error: "Malformed signature" };
+    }
+
+    if (recoveredAddress.toLowerCase() !== params.address.toLowerCase())
+        return { valid: false, params, recoveredAddress, error: "Signature does not match message address" };
+
+    const timeError = getSiweTimeError(params, time);
+
+    if (timeError) return { valid: false, params, recoveredAddress, error: timeError };
+
+    return { valid: true, params, recoveredAddress };
+}
+
+/**
+ * Function for verifying personal_sign signature of a smart contract account (EIP-1271).
+ *
+ * @param {Web3} web3 web3 instance of the account chain.
+ * @param {string} address contract account address.
+ * @param {string} message signed message.
+ * @param {string} signature message signature.
+ * @return {Promise<boolean>} true if the account contract accepts the signature, false
+ * if the address has no code or the request failed.
+ */
+export async function isValidContractSignature (web3: Web3, address: string, message: string, signature: string) {
+    try {
+        const code = await web3.eth.getCode(address);
+
+        if (!code || /^0x0*$/i.test(code)) return false;
+
+        const contract = new web3.eth.Contract(Erc1271Abi, address);
+
+        const result: string = await contract.methods
+            .isValidSignature(web3.eth.accounts.hashMessage(message), signature)
+            .call();
+
+        return result?.toLowerCase() === Erc1271MagicValue;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Function for verifying EIP-4361 (Sign-In with Ethereum) message signature of externally
+ * owned and smart contract accounts, contract signatures are verified with EIP-1271.
+ *
+ * @param {Web3} web3 web3 instance of the message chain.
+ * @param {string} message signed message.
+ * @param {string} signature personal_sign signature.
+ * @param {Date} time verification time (default: now).
+ * @return {Promise<TSiweVerificationResult>} verification result.
+ */
+export async function verifySiweMessageWithContract (
+    web3: Web3,
+    message: string,
+    signature: string,
+    time = new Date()
+): Promise<TSiweVerificationResult> {
+    const verification = verifySiweMessage(message, signature, time);
+    const { params } = verification;
+
+    if (verification.valid || !params) return verification;
+
+    if (!await isValidContractSignature(web3, params.address, message, signature)) return verification;
+
+    const timeError = getSiweTimeError(params, time);
+
+    return timeError ? { valid: false, params, error: timeError } : { valid: true, params };
+}
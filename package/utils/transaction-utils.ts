@@ -0,0 +1,197 @@
+import Web3 from "web3";
+
+/**
+ * Lifecycle status of a tracked transaction.
+ *
+ * submitted → pending → mined → confirmed, or one of the failed, replaced
+ * and dropped final statuses.
+ */
+export type TTransactionStatus = "submitted"
+    | "pending"
+    | "mined"
+    | "confirmed"
+    | "failed"
+    | "replaced"
+    | "dropped"
+
+export type TTransactionRequest = {
+    /** Sender address (default: connected account address). */
+    from?: string;
+
+    /** Recipient address, empty for contract deployment. */
+    to?: string;
+
+    /** Transferred value in wei. */
+    value?: string | number;
+
+    /** Transaction input data. */
+    data?: string;
+
+    /** Gas limit. */
+    gas?: string | number;
+
+    /** Legacy gas price in wei. */
+    gasPrice?: string | number;
+
+    /** EIP-1559 max fee per gas in wei. */
+    maxFeePerGas?: string | number;
+
+    /** EIP-1559 max priority fee per gas in wei. */
+    maxPriorityFeePerGas?: string | number;
+
+    /** Transaction nonce. */
+    nonce?: number;
+}
+
+export type TTrackedTransaction = {
+    /** Transaction hash. */
+    hash: string;
+
+    /** ID of the chain transaction was submitted to. */
+    chainId: number;
+
+    /** Sender address. */
+    from: string;
+
+    /** Recipient address. */
+    to?: string;
+
+    /** Transferred value in wei. */
+    value?: string;
+
+    /** Transaction nonce, known after the transaction found in the mempool. */
+    nonce?: number;
+
+    /** Current transaction status. */
+    status: TTransactionStatus;
+
+    /** Current number of confirmations. */
+    confirmations: number;
+
+    /** Number of confirmations required for the confirmed status. */
+    requiredConfirmations: number;
+
+    /** Number of the block transaction was mined in. */
+    blockNumber?: number;
+
+    /** Transaction submit timestamp (ms). */
+    submittedAt: number;
+}
+
+/**
+ * Pending transactions local storage key.
+ * @type {string}
+ */
+export const PendingTransactionsStorageKey = "evmWalletPendingTransactions";
+
+/**
+ * Time after which a transaction not found in the mempool is considered dropped (ms).
+ * @type {number}
+ */
+export const TransactionDropTimeout = 5 * 60 * 1000;
+
+/**
+ * Statuses after which a transaction is no longer tracked.
+ * @type {TTransactionStatus[]}
+ */
+export const FinalTransactionStatuses: TTransactionStatus[] = [ "confirmed", "failed", "replaced", "dropped" ];
+
+/**
+ * Function for checking if a transaction is no longer tracked.
+ *
+ * @param {TTrackedTransaction} transaction tracked transaction.
+ * @return {boolean} true if transaction status is final.
+ */
+export function isTransactionFinal (transaction: TTrackedTransaction) {
+    return FinalTransactionStatuses.includes(transaction.status);
+}
+
+/**
+ * Function for converting a transaction request to the eth_sendTransaction parameters.
+ *
+ * @param {TTransactionRequest} request transaction request.
+ * @param {string} from sender address.
+ * @return {{[p: string]: string}} hex encoded transaction parameters.
+ */
+export function toRpcTransaction (request: TTransactionRequest, from: string) {
+    const rpcTransaction: { [key: string]: string } = { from };
+
+    if (request.to) rpcTransaction.to = request.to;
+
+    if (request.data) rpcTransaction.data = request.data;
+
+    const quantityKeys = [ "value", "gas", "gasPrice", "maxFeePerGas", "maxPriorityFeePerGas", "nonce" ] as const;
+
+    quantityKeys.forEach(key => {
+        const value = request[key];
+
+        if (value !== undefined) rpcTransaction[key] = Web3.utils.toHex(value);
+    });
+
+    return rpcTransaction;
+}
+
+/** Web3 transaction receipt type. */
+type TTransactionReceipt = NonNullable<Awaited<ReturnType<Web3["eth"]["getTransactionReceipt"]>>>;
+
+/**
+ * Function for getting the status of a tracked transaction from its receipt.
+ *
+ * @param {Web3} web3 web3 instance connected to the transaction chain.
+ * @param {TTrackedTransaction} transaction tracked transaction.
+ * @param {TTransactionReceipt} receipt transaction receipt.
+ * @return {Promise<TTrackedTransaction>} updated transaction.
+ */
+async function getReceiptUpdate (
+    web3: Web3,
+    transaction: TTrackedTransaction,
+    receipt: TTransactionReceipt
+): Promise<TTrackedTransaction> {
+    if (!receipt.status) return { ...transaction, status: "failed", blockNumber: receipt.blockNumber };
+
+    const blockNumber = await web3.eth.getBlockNumber();
+    const confirmations = Math.max(blockNumber - receipt.blockNumber + 1, 0);
+
+    return {
+        ...transaction,
+        confirmations,
+        blockNumber: receipt.blockNumber,
+        status: confirmations >= transaction.requiredConfirmations ? "confirmed" : "mined"
+    };
+}
+
+/**
+ * Function for getting the next status of a tracked transaction from the chain.
+ *
+ * @param {Web3} web3 web3 instance connected to the transaction chain.
+ * @param {TTrackedTransaction} transaction tracked transaction.
+ * @return {Promise<TTrackedTransaction>} updated transaction.
+ */
+export async function getTransactionUpdate (
+    web3: Web3,
+    transaction: TTrackedTransaction
+): Promise<TTrackedTransaction> {
+    const receipt = await web3.eth.getTransactionReceipt(transaction.hash);
+
+    if (receipt) return getReceiptUpdate(web3, transaction, receipt);
+
+    const pendingTransaction = await web3.eth.getTransaction(transaction.hash);
+
+    if (pendingTransaction) return { ...transaction, status: "pending", nonce: pendingTransaction.nonce };
+
+    // Transaction disappeared from the mempool, its nonce is used by another transaction
+    const replaced = transaction.nonce !== undefined
+        && await web3.eth.getTransactionCount(transaction.from, "latest") > transaction.nonce;
+
+    const dropped = !replaced && Date.now() - transaction.submittedAt > TransactionDropTimeout;
+
+    if (!replaced && !dropped) return transaction;
+
+    // Lagging or failover nodes can miss the receipt of a mined transaction, it is checked
+    // again before the final status
+    const latestReceipt = await web3.eth.getTransactionReceipt(transaction.hash);
+
+    if (latestReceipt) return getReceiptUpdate(web3, transaction, latestReceipt);
+
+    return { ...transaction, status: replaced ? "replaced" : "dropped" };
+}
@@ -0,0 +1,167 @@
+export type TEvmWalletErrorOptions = {
+    /** Additional error data returned by the wallet. */
+    data?: unknown;
+
+    /** Original wallet or request error. */
+    cause?: unknown;
+}
+
+/**
+ * Base class of the EVM wallet controller errors.
+ *
+ * Error codes follow EIP-1193 provider errors and JSON-RPC errors (EIP-1474).
+ */
+export class EvmWalletError extends Error {
+    /** EIP-1193 or JSON-RPC error code. */
+    public readonly code: number;
+
+    /** Additional error data returned by the wallet. */
+    public readonly data?: unknown;
+
+    /** Original wallet or request error. */
+    public readonly cause?: unknown;
+
+    constructor (message: string, code: number, options: TEvmWalletErrorOptions = {}) {
+        super(message);
+
+        this.name = new.target.name;
+        this.code = code;
+        this.data = options.data;
+        this.cause = options.cause;
+
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+/** User rejected the request (4001). */
+export class UserRejectedRequestError extends EvmWalletError {
+    constructor (message = "User rejected the request", options?: TEvmWalletErrorOptions) {
+        super(message, 4001, options);
+    }
+}
+
+/** Requested method or account is not authorized by the user (4100). */
+export class UnauthorizedError extends EvmWalletError {
+    constructor (message = "Requested method or account is not authorized", options?: TEvmWalletErrorOptions) {
+        super(message, 4100, options);
+    }
+}
+
+/** Wallet is locked, accounts are not available until the user unlocks it (4100). */
+export class WalletLockedError extends UnauthorizedError {
+    constructor (message = "Wallet is locked", options?: TEvmWalletErrorOptions) {
+        super(message, options);
+    }
+}
+
+/** Provider does not support the requested method (4200). */
+export class UnsupportedMethodError extends EvmWalletError {
+    constructor (message = "Requested method is not supported", options?: TEvmWalletErrorOptions) {
+        super(message, 4200, options);
+    }
+}
+
+/** Provider or wallet is disconnected (4900). */
+export class DisconnectedError extends EvmWalletError {
+    constructor (message = "Wallet is disconnected", options?: TEvmWalletErrorOptions) {
+        super(message, 4900, options);
+    }
+}
+
+/** Wallet is not connected to the requested or to a supported chain (4901). */
+export class ChainDisconnectedError extends EvmWalletError {
+    constructor (message = "Wallet is not connected to a supported chain", options?: TEvmWalletErrorOptions) {
+        super(message, 4901, options);
+    }
+}
+
+/** Wallet does not know the requested chain (4902). */
+export class UnrecognizedChainError extends EvmWalletError {
+    constructor (message = "Unrecognized chain", options?: TEvmWalletErrorOptions) {
+        super(message, 4902, options);
+    }
+}
+
+/** Same request is already pending in the wallet (-32002). */
+export class RequestPendingError extends EvmWalletError {
+    constructor (message = "Request is already pending in the wallet", options?: TEvmWalletErrorOptions) {
+        super(message, -32002, options);
+    }
+}
+
+/** Transaction creation failed (-32003). */
+export class TransactionRejectedError extends EvmWalletError {
+    constructor (message = "Transaction rejected", options?: TEvmWalletErrorOptions) {
+        super(message, -32003, options);
+    }
+}
+
+/** Request limit exceeded (-32005). */
+export class LimitExceededError extends EvmWalletError {
+    constructor (message = "Request limit exceeded", options?: TEvmWalletErrorOptions) {
+        super(message, -32005, options);
+    }
+}
+
+/** Invalid method parameters (-32602). */
+export class InvalidParamsError extends EvmWalletError {
+    constructor (message = "Invalid method parameters", options?: TEvmWalletErrorOptions) {
+        super(message, -32602, options);
+    }
+}
+
+/** Internal JSON-RPC error, also used for unknown errors (-32603). */
+export class InternalError extends EvmWalletError {
+    constructor (message = "Internal JSON-RPC error", options?: TEvmWalletErrorOptions) {
+        super(message, -32603, options);
+    }
+}
+
+type TEvmWalletErrorConstructor = new (message?: string, options?: TEvmWalletErrorOptions) => EvmWalletError;
+
+/**
+ * Error classes by EIP-1193 and JSON-RPC error codes.
+ * @type {{[p: number]: TEvmWalletErrorConstructor}}
+ */
+export const EvmWalletErrorCodes: { [key: number]: TEvmWalletErrorConstructor } = {
+    4001: UserRejectedRequestError,
+    4100: UnauthorizedError,
+    4200: UnsupportedMethodError,
+    4900: DisconnectedError,
+    4901: ChainDisconnectedError,
+    4902: UnrecognizedChainError,
+    [-32002]: RequestPendingError,
+    [-32003]: TransactionRejectedError,
+    [-32005]: LimitExceededError,
+    [-32602]: InvalidParamsError,
+    [-32603]: InternalError
+};
+
+/**
+ * Function for converting a wallet or request error to a typed controller error.
+ *
+ * Some wallets (MetaMask mobile) wrap the original error, nested error
+ * code is used in this case.
+ *
+ * @param {any} error wallet or request error.
+ * @return {EvmWalletError} typed error.
+ */
+export function toEvmWalletError (error: any): EvmWalletError {
+    if (error instanceof EvmWalletError) return error;
+
+    const originalError = error?.data?.originalError;
+
+    const code = Number(originalError?.code ?? error?.code);
+    const message = String(originalError?.message ?? error?.message ?? error ?? "Unknown error");
+
+    const ErrorConstructor = EvmWalletErrorCodes[code];
+
+    const options = { data: error?.data, cause: error };
+
+    if (ErrorConstructor) return new ErrorConstructor(message, options);
+
+    // Older wallets reject requests without the EIP-1193 code
+    if (/user (rejected|denied|cancel)/i.test(message)) return new UserRejectedRequestError(message, options);
+
+    return new EvmWalletError(message, Number.isFinite(code) ? code : -32603, options);
+}
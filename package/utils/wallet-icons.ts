@@ -0,0 +1,59 @@
+/**
+ * Function for creating a wallet icon data URI with the brand background.
+ *
+ * @param {string} background icon background color.
+ * @param {string} content SVG content of the 32x32 icon.
+ * @return {string} SVG data URI.
+ */
+function createWalletIcon (background: string, content: string) {
+    const svg = "<svg xmlns=\"http://www.w3.org/2000/svg\" width=\"32\" height=\"32\" viewBox=\"0 0 32 32\">"
+        + "<rect width=\"32\" height=\"32\" rx=\"8\" fill=\"" + background + "\"/>"
+        + content
+        + "</svg>";
+
+    return "data:image/svg+xml;charset=utf-8," + encodeURIComponent(svg);
+}
+
+/**
+ * Icons of the known wallets as SVG data URIs, by wallet ID (reverse domain name or connector ID).
+ * @type {{[p: string]: string}}
+ */
+export const WalletIcons: { [key: string]: string } = {
+    "io.metamask": createWalletIcon(
+        "#F6851B",
+        "<path d=\"M7 7l7 5h4l7-5-2 8 2 6-5 4h-8l-5-4 2-6z\" fill=\"#FFFFFF\"/>"
+        + "<path d=\"M12 18l2 1-2 1zM20 18l-2 1 2 1z\" fill=\"#233447\"/>"
+    ),
+    "com.coinbase.wallet": createWalletIcon(
+        "#0052FF",
+        "<circle cx=\"16\" cy=\"16\" r=\"10\" fill=\"#FFFFFF\"/>"
+        + "<rect x=\"12.5\" y=\"12.5\" width=\"7\" height=\"7\" rx=\"1\" fill=\"#0052FF\"/>"
+    ),
+    "com.trustwallet.app": createWalletIcon(
+        "#0500FF",
+        "<path d=\"M16 6l9 3v6c0 6-4 10-9 11-5-1-9-5-9-11V9z\" fill=\"#FFFFFF\"/>"
+        + "<path d=\"M16 9.5v13.5c3.5-1 6-4 6-8v-3.5z\" fill=\"#48FF91\"/>"
+    ),
+    "io.rabby": createWalletIcon(
+        "#7084FF",
+        "<ellipse cx=\"16\" cy=\"19\" rx=\"9\" ry=\"6\" fill=\"#FFFFFF\"/>"
+        + "<ellipse cx=\"12\" cy=\"10\" rx=\"2\" ry=\"5\" fill=\"#FFFFFF\"/>"
+        + "<ellipse cx=\"19\" cy=\"10\" rx=\"2\" ry=\"5\" fill=\"#FFFFFF\"/>"
+        + "<circle cx=\"19\" cy=\"18\" r=\"1.5\" fill=\"#7084FF\"/>"
+    ),
+    "walletconnect": createWalletIcon(
+        "#3B99FC",
+        "<path d=\"M9.5 13c3.6-3.5 9.4-3.5 13 0l.4.4-1.5 1.5-.6-.6c-2.5-2.5-7.1-2.5-9.6 0l-.6.6-1.5-1.5z"
+        + "M6 16.5l1.5-1.5 5 5 3.5-3.5 3.5 3.5 5-5 1.5 1.5-6.5 6.5-3.5-3.5-3.5 3.5z\" fill=\"#FFFFFF\"/>"
+    )
+};
+
+/**
+ * Function for getting an icon of the known wallet.
+ *
+ * @param {string} walletId wallet ID (reverse domain name or connector ID).
+ * @return {string} icon data URI, empty for unknown wallets.
+ */
+export function getWalletIcon (walletId: string): string {
+    return WalletIcons[walletId] ?? "";
+}
@@ -0,0 +1,137 @@
+import { IWalletConnector } from "../connectors/wallet-connector";
+import { getWalletIcon } from "./wallet-icons";
+
+export type TKnownWallet = {
+    /** Wallet ID, reverse domain name of the injected wallet (EIP-6963). */
+    id: string;
+
+    /** Human-readable wallet name. */
+    name: string;
+
+    /** Wallet icon URL or data URI. */
+    icon: string;
+
+    /** Wallet download page URL. */
+    installUrl?: string;
+
+    /**
+     * Function for getting a link that opens the page in the wallet app browser.
+     *
+     * @param {string} url page URL.
+     * @return {string} wallet deep link.
+     */
+    getDeepLink?: (url: string) => string;
+}
+
+export type TWalletOption = {
+    /** Wallet ID, connector ID of the installed wallet. */
+    id: string;
+
+    /** Human-readable wallet name. */
+    name: string;
+
+    /** Wallet icon URL or data URI, can be empty. */
+    icon: string;
+
+    /** True if the wallet connector is registered and the wallet can be connected. */
+    installed: boolean;
+
+    /** Wallet download page URL, set only for not installed wallets. */
+    installUrl?: string;
+
+    /** Link that opens the page in the wallet app browser, set only for not installed wallets. */
+    deepLink?: string;
+}
+
+export type TWalletPickerContext = {
+    /** Connectable and known wallets, observable. */
+    readonly wallets: TWalletOption[];
+
+    /**
+     * Function for connecting the selected wallet.
+     *
+     * @param {string} walletId wallet ID.
+     * @return {Promise<boolean>} connecting result.
+     */
+    connect: (walletId: string) => Promise<boolean>;
+}
+
+/** Function for opening the wallet selection UI. */
+export type TWalletPicker = (context: TWalletPickerContext) => void;
+
+/**
+ * Wallets shown in the wallet list when not installed.
+ * @type {TKnownWallet[]}
+ */
+export const KnownWallets: TKnownWallet[] = [
+    {
+        id: "io.metamask",
+        name: "MetaMask",
+        icon: getWalletIcon("io.metamask"),
+        installUrl: "https://metamask.io/download/",
+        getDeepLink: url => "https://metamask.app.link/dapp/" + url.replace(/^https?:\/\//i, "")
+    },
+    {
+        id: "com.coinbase.wallet",
+        name: "Coinbase Wallet",
+        icon: getWalletIcon("com.coinbase.wallet"),
+        installUrl: "https://www.coinbase.com/wallet/downloads",
+        getDeepLink: url => "https://go.cb-w.com/dapp?cb_url=" + encodeURIComponent(url)
+    },
+    {
+        id: "com.trustwallet.app",
+        name: "Trust Wallet",
+        icon: getWalletIcon("com.trustwallet.app"),
+        installUrl: "https://trustwallet.com/download",
+        getDeepLink: url => "https://link.trustwallet.com/open_url?coin_id=60&url=" + encodeURIComponent(url)
+    },
+    {
+        id: "io.rabby",
+        name: "Rabby Wallet",
+        icon: getWalletIcon("io.rabby"),
+        installUrl: "https://rabby.io/"
+    }
+];
+
+/**
+ * Function for getting the list of wallets for the wallet selection UI.
+ *
+ * Registered connectors are listed first as installed wallets, known wallets
+ * without a registered connector are listed after them with install and deep links.
+ *
+ * @param {IWalletConnector[]} connectors registered wallet connectors.
+ * @param {TKnownWallet[]} knownWallets wallets shown when not installed.
+ * @param {string} pageUrl URL of the page opened by the deep links (default: current page URL).
+ * @return {TWalletOption[]} wallet list.
+ */
+export function getWalletOptions (
+    connectors: IWalletConnector[],
+    knownWallets: TKnownWallet[] = KnownWallets,
+    pageUrl = typeof window !== "undefined" ? window.location.href : ""
+): TWalletOption[] {
+    const installedIds = new Set(connectors.flatMap(connector => [ connector.id, connector.metadata.rdns ]));
+
+    const installed = connectors.map(connector => {
+        const knownWallet = knownWallets.find(wallet => wallet.id === (connector.metadata.rdns ?? connector.id));
+
+        return {
+            id: connector.id,
+            name: connector.metadata.name,
+            icon: connector.metadata.icon || knownWallet?.icon || "",
+            installed: true
+        };
+    });
+
+    const notInstalled = knownWallets
+        .filter(wallet => !installedIds.has(wallet.id))
+        .map(wallet => ({
+            id: wallet.id,
+            name: wallet.name,
+            icon: wallet.icon,
+            installed: false,
+            installUrl: wallet.installUrl,
+            deepLink: pageUrl && wallet.getDeepLink ? wallet.getDeepLink(pageUrl) : undefined
+        }));
+
+    return [ ...installed, ...notInstalled ];
+}
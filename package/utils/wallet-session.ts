@@ -0,0 +1,107 @@
+/**
+ * Wallet session local storage key, also used as the cross-tab channel name.
+ * @type {string}
+ */
+export const WalletSessionStorageKey = "evmWalletSession";
+
+/**
+ * Current version of the wallet session record, records of other versions are ignored.
+ * @type {number}
+ */
+export const WalletSessionVersion = 1;
+
+export type TWalletSession = {
+    /** Session record version. */
+    version: number;
+
+    /** Connector ID of the connected wallet. */
+    connectorId: string;
+
+    /** Active account address. */
+    account?: string;
+
+    /** Wallet chain ID, -1 for unsupported chains. */
+    chainId?: number;
+
+    /** Wallet connection timestamp (ms). */
+    connectedAt: number;
+
+    /** Session expiration timestamp (ms), session does not expire if not set. */
+    expiresAt?: number;
+}
+
+export type TWalletSessionSync = {
+    /** Function for notifying other tabs about the session change. */
+    notify: () => void;
+
+    /** Function for stopping the synchronization. */
+    close: () => void;
+}
+
+/**
+ * Function for validating a stored wallet session record.
+ *
+ * @param {unknown} value stored session record.
+ * @return {TWalletSession | undefined} session or undefined if record is invalid or has another version.
+ */
+export function parseWalletSession (value: unknown): TWalletSession | undefined {
+    if (!value || typeof value !== "object") return undefined;
+
+    const session = value as Partial<TWalletSession>;
+
+    if (session.version !== WalletSessionVersion) return undefined;
+
+    if (typeof session.connectorId !== "string" || !session.connectorId) return undefined;
+
+    if (typeof session.connectedAt !== "number") return undefined;
+
+    return session as TWalletSession;
+}
+
+/**
+ * Function for checking if the wallet session is expired.
+ *
+ * @param {TWalletSession} session wallet session.
+ * @param {number} now current timestamp (ms).
+ * @return {boolean} true if session is expired.
+ */
+export function isWalletSessionExpired (session: TWalletSession, now = Date.now()) {
+    return session.expiresAt !== undefined && session.expiresAt <= now;
+}
+
+/**
+ * Function for synchronizing the wallet session between tabs.
+ *
+ * BroadcastChannel is used if supported, otherwise storage events of the session key,
+ * so the session should be stored in a storage shared between tabs (localStorage).
+ *
+ * @param {string} key prefixed session storage key.
+ * @param {() => void} onChange callback called when the session changed in another tab.
+ * @return {TWalletSessionSync} synchronization controls.
+ */
+export function createWalletSessionSync (key: string, onChange: () => void): TWalletSessionSync {
+    if (typeof BroadcastChannel !== "undefined") {
+        const channel = new BroadcastChannel(key);
+
+        channel.onmessage = () => onChange();
+
+        return {
+            notify: () => channel.postMessage("sessionChanged"),
+            close: () => channel.close()
+        };
+    }
+
+    if (typeof window === "undefined") return { notify: () => undefined, close: () => undefined };
+
+    // Storage events are dispatched only in other tabs, key is null if storage cleared
+    const storageListener = (event: StorageEvent) => {
+        if (event.key === key || event.key === null) onChange();
+    };
+
+    window.addEventListener("storage", storageListener);
+
+    return {
+        notify: () => undefined,
+        close: () => window.removeEventListener("storage", storageListener)
+    };
+}
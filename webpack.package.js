@@ -27,7 +27,29 @@ const packageConfig = {
         "EvmWalletController": path.resolve(__dirname, "package", "EvmWalletController"),
         "utils/get-installed-wallets": path.resolve(__dirname, "package", "utils", "get-installed-wallets"),
         "utils/waiting-ethereum-promise": path.resolve(__dirname, "package", "utils", "waiting-ethereum-promise"),
-        "utils/network-utils": path.resolve(__dirname, "package", "utils", "network-utils")
+        "utils/network-utils": path.resolve(__dirname, "package", "utils", "network-utils"),
+        "utils/erc20-utils": path.resolve(__dirname, "package", "utils", "erc20-utils"),
+        "utils/transaction-utils": path.resolve(__dirname, "package", "utils", "transaction-utils"),
+        "utils/signature-utils": path.resolve(__dirname, "package", "utils", "signature-utils"),
+        "utils/block-subscription": path.resolve(__dirname, "package", "utils", "block-subscription"),
+        "utils/read-provider": path.resolve(__dirname, "package", "utils", "read-provider"),
+        "utils/wallet-errors": path.resolve(__dirname, "package", "utils", "wallet-errors"),
+        "utils/event-emitter": path.resolve(__dirname, "package", "utils", "event-emitter"),
+        "utils/ens-utils": path.resolve(__dirname, "package", "utils", "ens-utils"),
+        "utils/mock-ethereum-provider": path.resolve(__dirname, "package", "utils", "mock-ethereum-provider"),
+        "utils/contract-handle": path.resolve(__dirname, "package", "utils", "contract-handle"),
+        "utils/fee-utils": path.resolve(__dirname, "package", "utils", "fee-utils"),
+        "utils/chainlist-utils": path.resolve(__dirname, "package", "utils", "chainlist-utils"),
+        "utils/wallet-session": path.resolve(__dirname, "package", "utils", "wallet-session"),
+        "utils/connection-status": path.resolve(__dirname, "package", "utils", "connection-status"),
+        "utils/wallet-picker": path.resolve(__dirname, "package", "utils", "wallet-picker"),
+        "utils/wallet-icons": path.resolve(__dirname, "package", "utils", "wallet-icons"),
+        "utils/modal-wallet-picker": path.resolve(__dirname, "package", "utils", "modal-wallet-picker"),
+        "utils/chain-policy": path.resolve(__dirname, "package", "utils", "chain-policy"),
+        "connectors/wallet-connector": path.resolve(__dirname, "package", "connectors", "wallet-connector"),
+        "connectors/injected-connector": path.resolve(__dirname, "package", "connectors", "injected-connector"),
+        "connectors/wallet-connect-connector":
+            path.resolve(__dirname, "package", "connectors", "wallet-connect-connector")
     },
 
     plugins: [],
@@ -94,6 +116,11 @@ const packageConfig = {
             commonjs2: "web3",
             amd: "web3"
         },
+        "@adraffy/ens-normalize": {
+            commonjs: "@adraffy/ens-normalize",
+            commonjs2: "@adraffy/ens-normalize",
+            amd: "@adraffy/ens-normalize"
+        },
         "@walletconnect/ethereum-provider": {
             commonjs: "@walletconnect/ethereum-provider",
             commonjs2: "@walletconnect/ethereum-provider",